@@ -1,2 +0,0 @@
-export const BACKEND_URL="https://asp-feb-backend.amalitech-dev.net/"
-
@@ -0,0 +1,3 @@
+// Defaults for the settings in src/utils/settings.ts
+export const BACKEND_URL = "https://asp-feb-backend.amalitech-dev.net";
+export const REQUEST_TIMEOUT = 30000;
@@ -0,0 +1,241 @@
+import * as fs from "fs";
+import * as path from "path";
+import axios from "axios";
+import inquirer from "inquirer";
+import {
+  Assignment,
+  cacheDeadline,
+  fetchAssignments,
+} from "../utils/assignments.js";
+import {
+  PasswordOptions,
+  clearSession,
+  ensureSession,
+  getBackendUrl,
+  getSession,
+} from "../utils/auth.js";
+import { formatDuration } from "../utils/format.js";
+import { currentTime } from "../utils/clock.js";
+import { parseDeadline } from "../utils/deadline.js";
+import { getSetting } from "../utils/settings.js";
+import { updateConfiguration } from "./config.js";
+
+interface AssignmentsOptions extends PasswordOptions {
+  choose?: boolean;
+  watch?: boolean;
+}
+
+interface ShowOptions extends PasswordOptions {
+  use?: boolean;
+}
+
+function readConfig(cwd: string): { studentId?: string; assignmentCode?: string } {
+  try {
+    const configFile = path.join(cwd, ".subsys", "config.json");
+    return JSON.parse(fs.readFileSync(configFile, "utf-8"));
+  } catch (error) {
+    return {};
+  }
+}
+
+function parseAssignmentDeadline(assignment: Assignment): Date | undefined {
+  try {
+    return parseDeadline(assignment.deadline, assignment.timezone);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function formatRemaining(assignment: Assignment): string {
+  const deadline = parseAssignmentDeadline(assignment);
+
+  if (!deadline) {
+    return "unknown";
+  }
+
+  const remaining = deadline.getTime() - currentTime().getTime();
+  if (remaining >= 0) {
+    return formatDuration(remaining);
+  }
+  return assignment.allowLateSubmissions ? "late only" : "closed";
+}
+
+function formatAssignmentDeadline(assignment: Assignment): string {
+  return parseAssignmentDeadline(assignment)?.toLocaleString() ?? "unknown";
+}
+
+async function loadAssignments(
+  options: PasswordOptions,
+  cwd: string
+): Promise<Assignment[]> {
+  const backendUrl = getBackendUrl(cwd);
+  const studentId = getSetting("studentId", cwd);
+
+  const login = () =>
+    ensureSession(
+      backendUrl,
+      studentId !== undefined ? String(studentId) : undefined,
+      options
+    );
+
+  try {
+    const savedToken = getSession(backendUrl)?.token;
+    const session = await login();
+    try {
+      return await fetchAssignments(backendUrl, session.token);
+    } catch (error) {
+      const rejected =
+        axios.isAxiosError(error) && error.response?.status === 401;
+      if (!rejected || session.token !== savedToken) {
+        throw error;
+      }
+      // The saved session was rejected, drop it and log in once more
+      clearSession(backendUrl);
+      console.warn("The saved login session was rejected, logging in again.");
+      return await fetchAssignments(backendUrl, (await login()).token);
+    }
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error("Error fetching assignments:", error.response?.data || error.message);
+    } else {
+      console.error("Error fetching assignments:", (error as Error).message);
+    }
+    process.exit(1);
+  }
+}
+
+function printAssignments(assignments: Assignment[], currentCode?: string) {
+  const rows = assignments.map((assignment) => [
+    assignment.assignmentCode === currentCode ? "*" : " ",
+    assignment.assignmentCode,
+    assignment.title + (assignment.isPublished ? "" : " (unpublished)"),
+    assignment.course,
+    formatAssignmentDeadline(assignment),
+    formatRemaining(assignment),
+  ]);
+  const header = [" ", "CODE", "TITLE", "COURSE", "DEADLINE", "REMAINING"];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+
+  for (const row of [header, ...rows]) {
+    console.log(
+      row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd()
+    );
+  }
+}
+
+function useAssignment(assignment: Assignment, cwd: string) {
+  updateConfiguration({ assignmentCode: assignment.assignmentCode }, cwd);
+  cacheDeadline(cwd, assignment);
+  console.log(
+    `Repository configured for ${assignment.assignmentCode} (${assignment.title}).`
+  );
+}
+
+/**
+ * Redraws the countdown every second until Ctrl+C, then returns so the
+ * command exits normally. A failing redraw ends the loop with its error.
+ */
+async function watchAssignments(list: Assignment[], currentCode?: string) {
+  let stopped = false;
+  let wake = () => {};
+  const stop = () => {
+    stopped = true;
+    wake();
+  };
+
+  process.once("SIGINT", stop);
+  try {
+    while (!stopped) {
+      console.clear();
+      printAssignments(list, currentCode);
+      console.log("\nPress Ctrl+C to stop.");
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, 1000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    process.removeListener("SIGINT", stop);
+  }
+}
+
+export async function assignments(
+  options: AssignmentsOptions,
+  cwd = process.cwd()
+) {
+  const list = await loadAssignments(options, cwd);
+
+  if (list.length === 0) {
+    console.log("You have not been invited to any assignments.");
+    return;
+  }
+
+  // Soonest deadline first
+  list.sort(
+    (a, b) =>
+      (parseAssignmentDeadline(a)?.getTime() ?? Infinity) -
+      (parseAssignmentDeadline(b)?.getTime() ?? Infinity)
+  );
+
+  const currentCode = readConfig(cwd).assignmentCode;
+  printAssignments(list, currentCode);
+
+  if (options.choose) {
+    const { code } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "code",
+        message: "Which assignment is this repository for?",
+        choices: list.map((assignment) => ({
+          name: `${assignment.assignmentCode}  ${assignment.title}`,
+          value: assignment.assignmentCode,
+        })),
+        default: currentCode,
+      },
+    ]);
+    useAssignment(list.find((item) => item.assignmentCode === code)!, cwd);
+    return;
+  }
+
+  if (options.watch) {
+    await watchAssignments(list, currentCode);
+  }
+}
+
+export async function showAssignment(
+  code: string,
+  options: ShowOptions,
+  cwd = process.cwd()
+) {
+  const list = await loadAssignments(options, cwd);
+  const assignment = list.find((item) => item.assignmentCode === code);
+
+  if (!assignment) {
+    console.error(
+      `Assignment '${code}' not found among the assignments you are invited to.`
+    );
+    process.exit(1);
+  }
+
+  console.log(`${assignment.title} (${assignment.assignmentCode})`);
+  console.log(`Course:    ${assignment.course}`);
+  console.log(`Lecturer:  ${assignment.lecturerId}`);
+  console.log(
+    `Deadline:  ${formatAssignmentDeadline(assignment)} (${formatRemaining(assignment)})`
+  );
+  console.log(`Late work: ${assignment.allowLateSubmissions ? "accepted" : "not accepted"}`);
+  console.log(`Published: ${assignment.isPublished ? "yes" : "no"}`);
+  console.log("");
+  console.log(assignment.description);
+
+  if (options.use) {
+    console.log("");
+    useAssignment(assignment, cwd);
+  }
+}
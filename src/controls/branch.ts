@@ -0,0 +1,218 @@
+import * as fs from "fs";
+import * as path from "path";
+import { calculateTreeHash } from "../utils/tree.js";
+import { loadIgnoreMatcher, toRelativePath } from "../utils/ignore.js";
+import { loadStatCache, saveStatCache } from "../utils/statCache.js";
+import { readRepositoryFormat } from "../utils/objects.js";
+import {
+  findEntryByHash,
+  getHeadEntry,
+  isValidSnapshotName,
+  walkHistory,
+} from "../utils/logTrack.js";
+import {
+  deleteRef,
+  getCurrentBranch,
+  listBranches,
+  readRef,
+  resolveHead,
+  writeHead,
+  writeRef,
+} from "../utils/refs.js";
+import { getSnapshotRoot } from "../utils/workspace.js";
+import { restore } from "./restore.js";
+import { SubsysError } from "../utils/errors.js";
+
+interface BranchOptions {
+  delete?: boolean;
+  force?: boolean;
+}
+
+interface SwitchOptions {
+  force?: boolean;
+}
+
+function requireRepository(cwd: string) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+}
+
+function listAllBranches(cwd: string) {
+  const current = getCurrentBranch(cwd);
+  const branches = listBranches(cwd);
+
+  if (branches.length === 0) {
+    console.log(
+      current
+        ? `On branch ${current}, no snapshots yet.`
+        : "No branches yet."
+    );
+    return;
+  }
+
+  const width = Math.max(...branches.map((branch) => branch.name.length));
+  for (const branch of branches) {
+    const tip = branch.hash ? findEntryByHash(cwd, branch.hash) : undefined;
+    console.log(
+      `${branch.name === current ? "*" : " "} ${branch.name.padEnd(width)}  ` +
+        (tip ? `${tip.treeName} (${tip.SHA.slice(0, 7)})` : "(no snapshot)")
+    );
+  }
+}
+
+function createBranch(name: string, cwd: string) {
+  if (!isValidSnapshotName(name)) {
+    console.error("Branch name contains invalid characters. Please use a slug.");
+    process.exit(1);
+  }
+
+  if (readRef(cwd, `refs/heads/${name}`)) {
+    console.error(`Branch '${name}' already exists.`);
+    process.exit(1);
+  }
+
+  const head = resolveHead(cwd) ?? getHeadEntry(cwd)?.SHA;
+  if (!head) {
+    console.error("Cannot create a branch before the first snapshot. Use 'subsys snap' first.");
+    process.exit(1);
+  }
+
+  // Repositories from before refs existed have no ref for their branch yet
+  const current = getCurrentBranch(cwd);
+  if (current && !readRef(cwd, `refs/heads/${current}`)) {
+    writeRef(cwd, `refs/heads/${current}`, head);
+  }
+
+  writeRef(cwd, `refs/heads/${name}`, head);
+  console.log(
+    `Created branch '${name}' at snapshot '${findEntryByHash(cwd, head)?.treeName ?? head.slice(0, 7)}'.`
+  );
+}
+
+function deleteBranch(name: string, options: BranchOptions, cwd: string) {
+  const hash = readRef(cwd, `refs/heads/${name}`);
+
+  if (!hash) {
+    console.error(`Branch '${name}' not found.`);
+    process.exit(1);
+  }
+
+  if (name === getCurrentBranch(cwd)) {
+    console.error(`Cannot delete branch '${name}' while it is checked out.`);
+    process.exit(1);
+  }
+
+  // Snapshots only this branch leads to would drop out of every history
+  const reachable = listBranches(cwd)
+    .filter((branch) => branch.name !== name)
+    .some((branch) =>
+      walkHistory(cwd, branch.hash).some((entry) => entry.SHA === hash)
+    );
+  if (!reachable && !options.force) {
+    console.error(
+      `Branch '${name}' has snapshots no other branch contains. Use --force to delete it anyway.`
+    );
+    process.exit(1);
+  }
+
+  deleteRef(cwd, `refs/heads/${name}`);
+  console.log(
+    `Deleted branch '${name}' (was ${hash.slice(0, 7)}). Its snapshots are kept.`
+  );
+}
+
+export function branch(
+  name: string | undefined,
+  options: BranchOptions,
+  cwd = process.cwd()
+) {
+  requireRepository(cwd);
+
+  if (options.delete) {
+    if (!name) {
+      console.error("Name the branch to delete.");
+      process.exit(1);
+    }
+    deleteBranch(name, options, cwd);
+  } else if (name) {
+    createBranch(name, cwd);
+  } else {
+    listAllBranches(cwd);
+  }
+}
+
+/**
+ * Checks out a branch: the working directory is restored from the branch's
+ * latest snapshot and later snapshots are recorded on it.
+ */
+export async function switchBranch(
+  name: string,
+  options: SwitchOptions,
+  cwd = process.cwd()
+) {
+  requireRepository(cwd);
+
+  const target = readRef(cwd, `refs/heads/${name}`);
+  if (!target) {
+    console.error(`Branch '${name}' not found. Use 'subsys branch ${name}' to create it.`);
+    process.exit(1);
+  }
+
+  if (name === getCurrentBranch(cwd)) {
+    console.log(`Already on branch '${name}'.`);
+    return;
+  }
+
+  const targetEntry = findEntryByHash(cwd, target);
+  if (!targetEntry) {
+    console.error(`The snapshot branch '${name}' points at (${target.slice(0, 7)}) no longer exists.`);
+    process.exit(1);
+  }
+
+  const headEntry = getHeadEntry(cwd);
+
+  // Refuse to lose work that is in no snapshot
+  if (headEntry && !options.force) {
+    const sourceDir = getSnapshotRoot(cwd, headEntry.treeName);
+    const matcher = loadIgnoreMatcher(cwd);
+    const format = readRepositoryFormat(cwd);
+    const cache = loadStatCache(cwd, format);
+    const workingTree = await calculateTreeHash(sourceDir, matcher, format, {
+      cache,
+    });
+    saveStatCache(cwd, cache, toRelativePath(matcher, sourceDir));
+
+    if (workingTree.hash !== headEntry.SHA) {
+      console.error(
+        `You have changes since snapshot '${headEntry.treeName}'. Snap them first, or use --force to discard them.`
+      );
+      process.exit(1);
+    }
+  }
+
+  // The target may restore into another assignment's directory, restore
+  // itself refuses to overwrite changes there that are in no snapshot
+  if (headEntry?.SHA !== target) {
+    try {
+      await restore(
+        targetEntry.treeName,
+        [],
+        { delete: true, force: options.force },
+        { cwd }
+      );
+    } catch (error) {
+      if (error instanceof SubsysError && error.code === "CONFLICT") {
+        console.error(
+          `Switching to '${name}' would discard changes that are in no snapshot. Snap them first, or use --force to discard them.`
+        );
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  writeHead(cwd, { ref: `refs/heads/${name}` });
+  console.log(`Switched to branch '${name}' at snapshot '${targetEntry.treeName}'.`);
+}
@@ -0,0 +1,40 @@
+import * as fs from "fs";
+import * as path from "path";
+import { explainIgnore, loadIgnoreMatcher, toRelativePath } from "../utils/ignore.js";
+
+export function checkIgnore(paths: string[], cwd = process.cwd()) {
+  const matcher = loadIgnoreMatcher(cwd);
+  let anyIgnored = false;
+
+  for (const p of paths) {
+    const entryPath = path.resolve(cwd, p);
+    const relPath = toRelativePath(matcher, entryPath);
+
+    if (relPath === "" || relPath.startsWith("..")) {
+      console.error(`${p}: outside the repository`);
+      continue;
+    }
+
+    const isDirectory = fs.existsSync(entryPath)
+      ? fs.statSync(entryPath).isDirectory()
+      : p.endsWith("/");
+    const rule = explainIgnore(matcher, relPath, isDirectory);
+
+    if (!rule) {
+      console.log(`${relPath}: not ignored`);
+    } else if (rule.negate) {
+      console.log(
+        `${relPath}: not ignored, re-included by ${rule.source}:${rule.line}: ${rule.pattern}`
+      );
+    } else {
+      anyIgnored = true;
+      console.log(
+        `${relPath}: ignored by ${rule.source}:${rule.line}: ${rule.pattern}`
+      );
+    }
+  }
+
+  if (!anyIgnored) {
+    process.exit(1);
+  }
+}
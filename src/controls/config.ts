@@ -1,53 +1,61 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import inquirer, {  QuestionCollection } from 'inquirer';
+import {
+    SETTINGS,
+    SettingKey,
+    SettingScope,
+    getConfigFile,
+    isSettingKey,
+    readConfigFile,
+    resolveSetting,
+    writeConfigFile,
+} from '../utils/settings.js';
+import { ContextOptions, createContext } from '../utils/context.js';
+import { SubsysError } from '../utils/errors.js';
 
 interface Configuration {
     assignmentCode?: string;
     studentId?: string;
+    useGitignore?: boolean;
+    deadline?: string;
+    deadlines?: Record<string, string>;
+    workspace?: Record<string, string>;
+    hooks?: Record<string, string>;
 }
 
-interface Options {
+export interface ConfigureOptions {
     code?: string;
     student_id?: string;
     interactive?: boolean;
 }
 
-export async function configure(options: Options, cwd = process.cwd()) {
+export interface ConfigureResult {
+    assignmentCode?: string;
+    studentId?: string;
+}
+
+export async function configure(options: ConfigureOptions, context: ContextOptions = {}): Promise<ConfigureResult> {
+    const { cwd, logger, prompt } = createContext(context);
     const subsysPath = path.join(cwd, '.subsys');
     const configFile = path.join(subsysPath, 'config.json');
 
-    if (fs.existsSync(configFile)) {
-        console.log('Repository already configured.');
-        return;
-    }
-
     if (!fs.existsSync(subsysPath)) {
-        console.log("Repository is not initialized. Use 'subsys init' to initialize.");
-        process.exit(1);
+        throw new SubsysError('NOT_INITIALIZED', "Repository is not initialized. Use 'subsys init' to initialize.");
     }
 
     const codeProvided = options.code !== undefined;
     const studentIdProvided = options.student_id !== undefined;
 
-    if ((codeProvided && studentIdProvided) || options.interactive) {
-        try {
-            const existingConfig = loadConfiguration();
-
-            if (isConfigPopulated(existingConfig) && !options.interactive) {
-                console.log('Configuration already exists and is populated. Use interactive mode to reconfigure.');
-                process.exit(1);
-            }
+    if (!codeProvided && !studentIdProvided && !options.interactive) {
+        throw new SubsysError('INVALID_ARGUMENT', 'Please provide --code or --student_id, or use interactive mode with -i.');
+    }
 
-            const promptAnswers = options.interactive ? await promptForMissingInfo(existingConfig) : options;
+    const promptAnswers = options.interactive ? await promptForInfo(loadConfiguration()) : options;
 
-            saveConfiguration(promptAnswers.code, promptAnswers.student_id);
-        } catch (error) {
-            console.error('Error configuring repository:', (error as Error).message);
-            process.exit(1);
-        }
-    } else {
-        console.log('Please provide both options: --code and --student_id.');
+    try {
+        return saveConfiguration(promptAnswers.code, promptAnswers.student_id);
+    } catch (error) {
+        throw new SubsysError('INVALID_ARGUMENT', `Error configuring repository: ${(error as Error).message}`, { cause: error });
     }
 
     function loadConfiguration(): Configuration {
@@ -59,44 +67,165 @@ export async function configure(options: Options, cwd = process.cwd()) {
         }
     }
 
-    function isConfigPopulated(config: Configuration): boolean {
-        return !!config.assignmentCode && !!config.studentId;
+    // Existing values are offered as defaults so they can be corrected
+    async function promptForInfo(existingConfig: Configuration): Promise<ConfigureOptions> {
+        return {
+            code: await prompt.input('Enter your assignment code:', existingConfig.assignmentCode),
+            student_id: await prompt.input('Enter your student ID:', existingConfig.studentId),
+        };
     }
 
-    async function promptForMissingInfo(existingConfig: Configuration): Promise<Options> {
-        const prompts: QuestionCollection[] = [];
+    function saveConfiguration(assignmentCode: string | undefined, studentId: string | undefined): ConfigureResult {
+        const configData: Configuration = loadConfiguration();
 
-        if (!existingConfig.assignmentCode) {
-            prompts.push({
-                type: 'input',
-                name: 'code',
-                message: 'Enter your assignment code:',
-                validate: (input: string) => !!input.trim(),
-            });
+        if (assignmentCode !== undefined) {
+            configData.assignmentCode = SETTINGS.assignmentCode.parse(assignmentCode);
         }
-
-        if (!existingConfig.studentId) {
-            prompts.push({
-                type: 'input',
-                name: 'student_id',
-                message: 'Enter your student ID:',
-                validate: (input: string) => !!input.trim(),
-            });
+        if (studentId !== undefined) {
+            configData.studentId = SETTINGS.studentId.parse(studentId);
         }
 
-        return inquirer.prompt(prompts) as Promise<Options>;
+        fs.mkdirSync(subsysPath, { recursive: true });
+
+        fs.writeFileSync(configFile, JSON.stringify(configData, null, 2));
+
+        logger.info('Repository configured successfully.');
+        return { assignmentCode: configData.assignmentCode, studentId: configData.studentId };
     }
+}
 
-    function saveConfiguration(assignmentCode: string | undefined, studentId: string | undefined) {
-        const configData: Configuration = {
-            studentId,
-            assignmentCode,
-        };
+export function setUseGitignore(enabled: boolean, context: ContextOptions = {}) {
+    const { cwd, logger } = createContext(context);
+    const subsysPath = path.join(cwd, '.subsys');
+    const configFile = path.join(subsysPath, 'config.json');
 
-        fs.mkdirSync(subsysPath, { recursive: true });
+    if (!fs.existsSync(subsysPath)) {
+        throw new SubsysError('NOT_INITIALIZED', "Repository is not initialized. Use 'subsys init' to initialize.");
+    }
 
-        fs.writeFileSync(configFile, JSON.stringify(configData, null, 2));
+    let configData: Configuration = {};
+    if (fs.existsSync(configFile)) {
+        configData = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    }
+
+    configData.useGitignore = enabled;
+    fs.writeFileSync(configFile, JSON.stringify(configData, null, 2));
+
+    logger.info(enabled ? '.gitignore rules will be honoured.' : '.gitignore rules will be skipped.');
+    return { useGitignore: enabled };
+}
+
+export function updateConfiguration(values: Configuration, cwd = process.cwd()) {
+    const subsysPath = path.join(cwd, '.subsys');
+    const configFile = path.join(subsysPath, 'config.json');
+
+    if (!fs.existsSync(subsysPath)) {
+        throw new SubsysError('NOT_INITIALIZED', "Repository is not initialized. Use 'subsys init' to initialize.");
+    }
 
-        console.log('Repository configured successfully.');
+    let configData: Configuration = {};
+    if (fs.existsSync(configFile)) {
+        configData = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    }
+
+    fs.writeFileSync(configFile, JSON.stringify({ ...configData, ...values }, null, 2));
+}
+
+interface ScopeOptions {
+    user?: boolean;
+}
+
+function requireSettingKey(key: string) {
+    if (!isSettingKey(key)) {
+        throw new SubsysError('INVALID_ARGUMENT', `Unknown configuration key '${key}'. Known keys: ${Object.keys(SETTINGS).join(', ')}.`);
+    }
+    return key;
+}
+
+function requireScope(key: SettingKey, options: ScopeOptions, cwd: string): SettingScope {
+    const scope: SettingScope = options.user ? 'user' : 'repo';
+    const scopes: SettingScope[] = SETTINGS[key].scopes;
+
+    if (!scopes.includes(scope)) {
+        throw new SubsysError('INVALID_ARGUMENT', `'${key}' can only be set for the ${scopes.join(' or ')} configuration.`);
+    }
+
+    if (scope === 'repo' && !fs.existsSync(path.join(cwd, '.subsys'))) {
+        throw new SubsysError('NOT_INITIALIZED', "Repository is not initialized. Use 'subsys init' to initialize, or use --user.");
+    }
+
+    return scope;
+}
+
+export function configGet(key: string, options: ScopeOptions, context: ContextOptions = {}) {
+    const { cwd, logger } = createContext(context);
+    const settingKey = requireSettingKey(key);
+    const setting = options.user
+        ? { value: readConfigFile('user', cwd)[settingKey], source: 'user' }
+        : resolveSetting(settingKey, cwd);
+
+    // Like git, an unset key prints nothing on stdout and fails
+    if (setting?.value === undefined) {
+        throw new SubsysError('NOT_FOUND', `'${key}' is not set.`);
+    }
+
+    logger.info(String(setting.value));
+    return { key, value: setting.value, source: setting.source };
+}
+
+export function configSet(key: string, value: string, options: ScopeOptions, context: ContextOptions = {}) {
+    const { cwd, logger } = createContext(context);
+    const settingKey = requireSettingKey(key);
+    const scope = requireScope(settingKey, options, cwd);
+
+    let parsedValue;
+    try {
+        parsedValue = SETTINGS[settingKey].parse(value);
+    } catch (error) {
+        throw new SubsysError('INVALID_ARGUMENT', `Invalid value for '${key}': ${(error as Error).message}`);
+    }
+
+    writeConfigFile(scope, cwd, { ...readConfigFile(scope, cwd), [settingKey]: parsedValue });
+    logger.info(`Set ${key}=${parsedValue} in ${getConfigFile(scope, cwd)}`);
+    return { key, value: parsedValue, scope, file: getConfigFile(scope, cwd) };
+}
+
+export function configUnset(key: string, options: ScopeOptions, context: ContextOptions = {}) {
+    const { cwd, logger } = createContext(context);
+    const settingKey = requireSettingKey(key);
+    const scope = requireScope(settingKey, options, cwd);
+    const values = readConfigFile(scope, cwd);
+
+    if (values[settingKey] === undefined) {
+        throw new SubsysError('NOT_FOUND', `'${key}' is not set in ${getConfigFile(scope, cwd)}`);
     }
+
+    delete values[settingKey];
+    writeConfigFile(scope, cwd, values);
+    logger.info(`Unset ${key} in ${getConfigFile(scope, cwd)}`);
+    return { key, scope, file: getConfigFile(scope, cwd) };
+}
+
+export function configList(options: ScopeOptions, context: ContextOptions = {}) {
+    const { cwd, logger } = createContext(context);
+    const settings: { key: SettingKey; value: unknown; source: string }[] = [];
+
+    for (const key of Object.keys(SETTINGS) as (SettingKey)[]) {
+        if (options.user) {
+            const value = readConfigFile('user', cwd)[key];
+            if (value !== undefined) {
+                logger.info(`${key}=${value}`);
+                settings.push({ key, value, source: 'user' });
+            }
+            continue;
+        }
+
+        const setting = resolveSetting(key, cwd);
+        if (setting) {
+            logger.info(`${setting.source.padEnd(8)} ${key}=${setting.value}`);
+            settings.push({ key, ...setting });
+        }
+    }
+
+    return { settings };
 }
@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TreeChange, diffTrees, isBinary, unifiedDiff } from "../utils/diff.js";
+import { TreeObject, calculateTreeHash } from "../utils/tree.js";
+import { loadIgnoreMatcher, toRelativePath } from "../utils/ignore.js";
+import { loadStatCache, saveStatCache } from "../utils/statCache.js";
+import { readObject, readRepositoryFormat } from "../utils/objects.js";
+import { readSnapshotTree } from "../utils/recursive.js";
+import { getSnapshotRoot } from "../utils/workspace.js";
+
+interface DiffOptions {
+  patch?: boolean;
+}
+
+const statusLabels: Record<TreeChange["status"], string> = {
+  added: "added:   ",
+  removed: "removed: ",
+  modified: "modified:",
+  renamed: "renamed: ",
+};
+
+function loadSnapshot(cwd: string, snapshotName: string): TreeObject {
+  const tree = readSnapshotTree(cwd, snapshotName);
+
+  if (!tree) {
+    console.error(`Snapshot '${snapshotName}' not found.`);
+    process.exit(1);
+  }
+
+  return tree;
+}
+
+export async function diff(
+  from: string,
+  to: string | undefined,
+  options: DiffOptions,
+  cwd = process.cwd()
+) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  const oldTree = loadSnapshot(cwd, from);
+  // Workspace snapshots are compared with their assignment's directory
+  const sourceDir = getSnapshotRoot(cwd, from);
+  let newTree: TreeObject;
+
+  if (to) {
+    newTree = loadSnapshot(cwd, to);
+  } else {
+    const format = readRepositoryFormat(cwd);
+    const matcher = loadIgnoreMatcher(cwd);
+    const cache = loadStatCache(cwd, format);
+    newTree = await calculateTreeHash(sourceDir, matcher, format, {
+      cache,
+    });
+    saveStatCache(cwd, cache, toRelativePath(matcher, sourceDir));
+  }
+
+  const changes = diffTrees(oldTree, newTree);
+
+  if (changes.length === 0) {
+    console.log("No differences.");
+    return;
+  }
+
+  for (const change of changes) {
+    const label = statusLabels[change.status];
+    console.log(
+      change.status === "renamed"
+        ? `${label} ${change.oldPath} -> ${change.path}`
+        : `${label} ${change.path}`
+    );
+  }
+
+  if (!options.patch) {
+    return;
+  }
+
+  // Snapshot blobs come from the object store, the working tree from disk
+  const readOld = (hash: string) => readObject(cwd, hash);
+  const readNew = (filePath: string, hash: string) =>
+    to ? readObject(cwd, hash) : fs.readFileSync(path.join(sourceDir, filePath));
+  const newLabel = to ? "b/" : "working/";
+
+  for (const change of changes) {
+    if (change.status === "renamed") {
+      continue;
+    }
+
+    const oldContent = change.oldHash ? readOld(change.oldHash) : Buffer.alloc(0);
+    const newContent = change.newHash
+      ? readNew(change.path, change.newHash)
+      : Buffer.alloc(0);
+
+    console.log("");
+    console.log(`diff ${from} ${to || "working tree"} -- ${change.path}`);
+
+    if (oldContent === null || newContent === null) {
+      console.log(`Object for '${change.path}' is missing from the object store.`);
+      continue;
+    }
+
+    if (isBinary(oldContent) || isBinary(newContent)) {
+      console.log(`Binary file '${change.path}' differs.`);
+      continue;
+    }
+
+    console.log(
+      unifiedDiff(
+        oldContent.toString("utf-8"),
+        newContent.toString("utf-8"),
+        change.oldHash ? `a/${change.path}` : "/dev/null",
+        change.newHash ? `${newLabel}${change.path}` : "/dev/null"
+      )
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ARCHIVE_FORMATS,
+  ArchiveFormat,
+  MANIFEST_ENTRY,
+  writeSnapshotArchive,
+} from "../utils/archive.js";
+import { getSnapshotFile } from "../utils/recursive.js";
+import { formatBytes } from "../utils/format.js";
+
+interface ExportOptions {
+  format?: ArchiveFormat;
+  output?: string;
+  manifest?: boolean;
+  force?: boolean;
+}
+
+export async function exportSnapshot(
+  snapshotName: string,
+  options: ExportOptions,
+  cwd = process.cwd()
+) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(getSnapshotFile(cwd, snapshotName))) {
+    console.error(`Snapshot '${snapshotName}' not found.`);
+    process.exit(1);
+  }
+
+  const archiveFormat = options.format || "tar.gz";
+  if (!ARCHIVE_FORMATS.includes(archiveFormat)) {
+    console.error(`Unsupported format '${archiveFormat}'. Use zip or tar.gz.`);
+    process.exit(1);
+  }
+
+  const outputFile = path.resolve(
+    cwd,
+    options.output || `${snapshotName}.${archiveFormat}`
+  );
+  if (fs.existsSync(outputFile) && !options.force) {
+    console.error(`'${outputFile}' already exists. Use --force to overwrite it.`);
+    process.exit(1);
+  }
+
+  // A failed export must not leave a truncated archive behind
+  const partialFile = `${outputFile}.partial`;
+  try {
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    const manifest = await writeSnapshotArchive(
+      cwd,
+      snapshotName,
+      archiveFormat,
+      partialFile,
+      { includeManifest: options.manifest }
+    );
+    fs.renameSync(partialFile, outputFile);
+
+    const totalSize = manifest.files.reduce((sum, file) => sum + file.size, 0);
+    console.log(
+      `Exported '${snapshotName}' to ${outputFile}: ${manifest.files.length} file(s), ` +
+        `${formatBytes(totalSize)} before compression.`
+    );
+    console.log(`Tree:     ${manifest.treeHash} (${manifest.hashAlgorithm})`);
+    if (options.manifest) {
+      console.log(
+        `Manifest: ${MANIFEST_ENTRY}, contentHash is the plain ${manifest.hashAlgorithm} of each file`
+      );
+    }
+  } catch (error) {
+    fs.rmSync(partialFile, { force: true });
+    console.error(`Error exporting snapshot '${snapshotName}':`, (error as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,44 @@
+import * as fs from "fs";
+import * as path from "path";
+import { checkRepository, hasErrors, printFsckProblems } from "../utils/fsck.js";
+
+interface FsckOptions {
+  verbose?: boolean;
+}
+
+/**
+ * Exits with 0 when the repository is consistent and 1 when any object,
+ * tree or snapshot is missing or damaged.
+ */
+export function fsck(options: FsckOptions, cwd = process.cwd()) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  const report = checkRepository(cwd);
+
+  printFsckProblems(report);
+
+  if (report.orphanedObjects.length > 0) {
+    console.log(
+      `${report.orphanedObjects.length} orphaned object(s) not referenced by any snapshot.`
+    );
+    if (options.verbose) {
+      report.orphanedObjects.forEach((hash) =>
+        console.log(`orphaned object ${hash}`)
+      );
+    }
+  }
+
+  console.log(
+    `Checked ${report.checkedObjects} object(s) and ${report.checkedSnapshots} snapshot(s).`
+  );
+
+  if (hasErrors(report)) {
+    console.error("Repository check failed.");
+    process.exit(1);
+  }
+
+  console.log("Repository is consistent.");
+}
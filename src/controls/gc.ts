@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import * as path from "path";
+import { checkRepository } from "../utils/fsck.js";
+import { formatBytes } from "../utils/format.js";
+import { getObjectFile } from "../utils/objects.js";
+
+interface GcOptions {
+  dryRun?: boolean;
+}
+
+export function gc(options: GcOptions, cwd = process.cwd()) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  const report = checkRepository(cwd);
+
+  // An unreadable snapshot may still reference objects we cannot see
+  if (report.unreadableSnapshots.length > 0) {
+    console.error(
+      `Cannot collect garbage while snapshots are unreadable: ${report.unreadableSnapshots.join(", ")}`
+    );
+    console.error("Run 'subsys fsck' for details.");
+    process.exit(1);
+  }
+
+  let reclaimed = 0;
+
+  for (const hash of report.orphanedObjects) {
+    const objectFile = getObjectFile(cwd, hash);
+    reclaimed += fs.statSync(objectFile).size;
+
+    if (options.dryRun) {
+      console.log(`would remove ${hash}`);
+      continue;
+    }
+
+    fs.unlinkSync(objectFile);
+    const prefixDir = path.dirname(objectFile);
+    if (fs.readdirSync(prefixDir).length === 0) {
+      fs.rmdirSync(prefixDir);
+    }
+  }
+
+  const count = report.orphanedObjects.length;
+  console.log(
+    options.dryRun
+      ? `Dry run: ${count} unreferenced object(s) would be removed, reclaiming ${formatBytes(reclaimed)}.`
+      : `Removed ${count} unreferenced object(s), reclaimed ${formatBytes(reclaimed)}.`
+  );
+}
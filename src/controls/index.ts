@@ -1,63 +1,420 @@
 #!/usr/bin/env node
 import * as commander from "commander";
+import * as dotenv from "dotenv";
 import { init } from "./init.js";
-import { configure } from "./config.js";
+import {
+  configGet,
+  configList,
+  configSet,
+  configUnset,
+  configure,
+  setUseGitignore,
+} from "./config.js";
 import { snap } from "./snap.js";
-import { submit } from "./submit.js";
-import inquirer from "inquirer";
+import { UPLOAD_MODES, submit } from "./submit.js";
+import { log } from "./log.js";
+import { diff } from "./diff.js";
+import { restore } from "./restore.js";
+import { status } from "./status.js";
+import { checkIgnore } from "./checkIgnore.js";
+import { fsck } from "./fsck.js";
+import { deleteSnapshot, renameSnapshot } from "./snapshots.js";
+import { gc } from "./gc.js";
+import { migrate } from "./migrate.js";
+import { login, logout, whoami } from "./login.js";
+import { assignments, showAssignment } from "./assignments.js";
+import { submissions } from "./submissions.js";
+import { push } from "./push.js";
+import { workspaceAdd, workspaceList, workspaceRemove } from "./workspace.js";
+import { branch, switchBranch } from "./branch.js";
+import { exportSnapshot } from "./export.js";
+import { ARCHIVE_FORMATS } from "../utils/archive.js";
+import { applyRequestSettings } from "../utils/settings.js";
+import { ContextOptions } from "../utils/context.js";
+import {
+  EXIT_CODES,
+  EXIT_CODE_HELP,
+  JSON_COMMANDS,
+  enableJsonOutput,
+  fail,
+  isJsonOutput,
+  jsonPrompt,
+  printResult,
+  recordResult,
+  reportError,
+  setCommandName,
+} from "../utils/output.js";
+
+// Only the CLI reads .env, importing the library leaves process.env alone
+dotenv.config();
 
 const program = new commander.Command();
 
+// Operations log to the console and prompt unless --json rules that out
+const cliContext = (): ContextOptions =>
+  isJsonOutput() ? { prompt: jsonPrompt } : {};
+
+program
+  .option("--json", "Print a JSON result (init, config, snap, submit)")
+  .addHelpText("after", EXIT_CODE_HELP)
+  .exitOverride();
+
+program.hook("preAction", (_, actionCommand) => {
+  // Subcommands are named with their parents, as in "config get"
+  const names: string[] = [];
+  let command: commander.Command | null = actionCommand;
+  while (command?.parent) {
+    names.unshift(command.name());
+    command = command.parent;
+  }
+  const commandName = names.join(" ");
+  setCommandName(commandName);
+
+  if (program.opts().json) {
+    enableJsonOutput();
+    if (!JSON_COMMANDS.includes(commandName)) {
+      fail("INVALID_ARGUMENT", `'subsys ${commandName}' does not support --json.`);
+    }
+  }
+
+  applyRequestSettings();
+});
+
 program
   .command("init")
   .description("Initialize a directory as an assignment submission")
-  .action(() => {
-    init();
+  .option("--hash <algorithm>", "Object hash algorithm: sha1 or sha256", "sha1")
+  .action(({ hash }) => {
+    recordResult(init(hash, cliContext()));
   });
 
-program
+const configCommand = program
   .command("config")
   .description("Configure the repository")
   .option("-i, --interactive", "Interactive mode")
   .option("--code <assignmentCode>", "Assignment code")
   .option("--student_id <studentId>", "Student ID")
+  .option("--use-gitignore", "Also apply .gitignore rules when snapping")
+  .option("--no-use-gitignore", "Stop applying .gitignore rules")
   .action(async (options) => {
     const codeProvided = options.code !== undefined;
     const studentIdProvided = options.student_id !== undefined;
 
-    if ((codeProvided && studentIdProvided) || options.interactive) {
-      await configure(options);
-    } else {
-      console.log(
-        "Please provide both options: --code and --student_id, or use interactive mode with -i."
-      );
+    if (options.useGitignore !== undefined) {
+      recordResult(setUseGitignore(options.useGitignore));
+      if (!codeProvided && !studentIdProvided && !options.interactive) {
+        return;
+      }
     }
+
+    recordResult(await configure(options, cliContext()));
   });
 
-program
+configCommand
+  .command("get <key>")
+  .description("Print the effective value of a configuration key")
+  .option("--user", "Read only the user configuration")
+  .action((key, options) => {
+    recordResult(configGet(key, options));
+  });
+
+configCommand
+  .command("set <key> <value>")
+  .description("Set a configuration key")
+  .option("--user", "Write the user configuration instead of the repository's")
+  .action((key, value, options) => {
+    recordResult(configSet(key, value, options));
+  });
+
+configCommand
+  .command("unset <key>")
+  .description("Remove a configuration key")
+  .option("--user", "Write the user configuration instead of the repository's")
+  .action((key, options) => {
+    recordResult(configUnset(key, options));
+  });
+
+configCommand
+  .command("list")
+  .description("List configuration values and where they come from")
+  .option("--user", "List only the user configuration")
+  .action((options) => {
+    recordResult(configList(options));
+  });
+
+const snapCommand = program
   .command("snap")
   .description("Create a snapshot of the working directory")
-  .requiredOption("--name <snapshotName>", "Name of the snapshot")
-  .action(async ({ name }) => {
-    await snap(process.cwd(), name);
+  .option("--name <snapshotName>", "Name of the snapshot")
+  .option("-m, --message <message>", "Describe the snapshot")
+  .option("-v, --verbose", "Print a timing summary")
+  .option("-a, --assignment <code>", "Snap only this workspace assignment")
+  .option("--no-verify", "Skip the pre-snap hook")
+  .action(async ({ name, message, verbose, assignment, verify }) => {
+    // Not a requiredOption, commander would also demand it for subcommands
+    if (!name) {
+      snapCommand.error("error: required option '--name <snapshotName>' not specified");
+    }
+    recordResult(
+      await snap(name, { message, verbose, assignment, verify }, cliContext())
+    );
+  });
+
+snapCommand
+  .command("delete <name>")
+  .description("Delete a snapshot")
+  .option("-f, --force", "Delete even if the snapshot was submitted")
+  .action((name, options) => {
+    deleteSnapshot(name, options);
+  });
+
+snapCommand
+  .command("rename <oldName> <newName>")
+  .description("Rename a snapshot")
+  .action((oldName, newName) => {
+    renameSnapshot(oldName, newName);
+  });
+
+program
+  .command("branch [name]")
+  .description("List branches, or create one at the current snapshot")
+  .option("-d, --delete", "Delete the branch")
+  .option("-f, --force", "Delete even if no other branch has its snapshots")
+  .action((name, options) => {
+    branch(name, options);
+  });
+
+program
+  .command("switch <branch>")
+  .description("Restore a branch's latest snapshot and snap onto that branch")
+  .option("-f, --force", "Discard changes that are not in a snapshot")
+  .action(async (name, options) => {
+    await switchBranch(name, options);
+  });
+
+program
+  .command("gc")
+  .description("Remove objects that no snapshot references")
+  .option("--dry-run", "Show what would be removed without deleting")
+  .action((options) => {
+    gc(options);
+  });
+
+program
+  .command("log")
+  .description("Show the snapshot history")
+  .option("-n, --limit <count>", "Show only the most recent snapshots")
+  .option("--since <date>", "Show snapshots created after a date")
+  .option("--oneline", "Show each snapshot on a single line")
+  .action((options) => {
+    log(options);
+  });
+
+program
+  .command("diff <a> [b]")
+  .description(
+    "Show changes between two snapshots, or a snapshot and the working directory"
+  )
+  .option("-p, --patch", "Show line-level changes for text files")
+  .action(async (a, b, options) => {
+    await diff(a, b, options);
+  });
+
+program
+  .command("restore <snapshot> [paths...]")
+  .description("Restore files in the working directory from a snapshot")
+  .option("-o, --output <directory>", "Restore into another directory")
+  .option("--dry-run", "Show what would be restored without writing files")
+  .option("--delete", "Remove files that are not in the snapshot")
+  .option("-f, --force", "Overwrite local changes")
+  .action(async (snapshot, paths, options) => {
+    await restore(snapshot, paths, options);
+  });
+
+program
+  .command("status")
+  .description("Show changes since the latest snapshot")
+  .action(async () => {
+    await status();
+  });
+
+program
+  .command("check-ignore <paths...>")
+  .description("Explain which ignore rule applies to each path")
+  .action((paths) => {
+    checkIgnore(paths);
+  });
+
+program
+  .command("fsck")
+  .description(
+    "Verify the object store and snapshots, exiting with 1 if anything is damaged"
+  )
+  .option("-v, --verbose", "List orphaned objects")
+  .action((options) => {
+    fsck(options);
+  });
+
+program
+  .command("migrate")
+  .description("Upgrade the object store to the compressed version 2 format")
+  .option("--hash <algorithm>", "Object hash algorithm: sha1 or sha256", "sha1")
+  .action((options) => {
+    migrate(options);
   });
 
 program
   .command("submit")
   .description("Submit assignments")
   .option("-s, --snapshot <snapshot>", "Specify the snapshot name")
+  .option("--all", "Submit every snapshot instead of only the latest")
+  .option("-a, --assignment <code>", "Submit a workspace assignment")
+  .option("--dry-run", "Show what would be uploaded without sending it")
+  .option("--queue", "Queue the submission if the backend cannot be reached")
+  .option("--no-verify", "Skip the pre-submit hook")
+  .option("--late", "Submit after the deadline if the assignment accepts late work")
+  .option("--password-stdin", "Read the password from stdin")
+  .addOption(
+    new commander.Option(
+      "--upload <mode>",
+      "Upload flattened files (legacy) or one archive with a manifest (archive)"
+    )
+      .choices(UPLOAD_MODES)
+      .default("legacy")
+  )
+  .addOption(
+    new commander.Option("--archive-format <format>", "Archive type for --upload archive")
+      .choices(ARCHIVE_FORMATS)
+      .default("tar.gz")
+  )
   .action(async (options) => {
-    const { snapshot } = options;
+    const { snapshot, ...submitOptions } = options;
+
+    const result = await submit(snapshot, submitOptions, cliContext());
+    recordResult(result);
+
+    const queued = result.submissions.filter(
+      (submission) => submission.status === "queued"
+    );
+    if (queued.length > 0) {
+      fail(
+        "QUEUED",
+        `${queued.length} submission(s) were queued, not delivered. Run 'subsys push' to send them.`,
+        { submissions: result.submissions }
+      );
+    }
+  });
+
+program
+  .command("export <snapshot>")
+  .description("Write a snapshot into a zip or tar.gz archive")
+  .addOption(
+    new commander.Option("--format <format>", "Archive type")
+      .choices(ARCHIVE_FORMATS)
+      .default("tar.gz")
+  )
+  .option("-o, --output <file>", "Archive to write, <snapshot>.<format> by default")
+  .option("--manifest", "Include a manifest of file hashes and the tree hash")
+  .option("-f, --force", "Overwrite an existing archive")
+  .action(async (snapshot, options) => {
+    await exportSnapshot(snapshot, options);
+  });
+
+const workspaceCommand = program
+  .command("workspace")
+  .description("Map assignment codes to subdirectories of the repository")
+  .action(() => {
+    workspaceList();
+  });
 
-    const { password } = await inquirer.prompt([
-      {
-        type: "password",
-        name: "password",
-        message: "Enter your password:",
-        mask: "*",
-      },
-    ]);
+workspaceCommand
+  .command("add <code> <directory>")
+  .description("Keep an assignment in a subdirectory")
+  .action((code, directory) => {
+    workspaceAdd(code, directory);
+  });
 
-    await submit(snapshot, password);
+workspaceCommand
+  .command("remove <code>")
+  .description("Remove an assignment from the workspace")
+  .action((code) => {
+    workspaceRemove(code);
   });
-  program.parse(process.argv);
\ No newline at end of file
+
+program
+  .command("push")
+  .description("Retry submissions queued by 'subsys submit --queue'")
+  .option("--retries <count>", "Retries per submission before giving up", "5")
+  .action(async (options) => {
+    await push(options);
+  });
+
+program
+  .command("submissions")
+  .description("Show the submissions recorded in this repository")
+  .option("-s, --snapshot <snapshot>", "Show only submissions of a snapshot")
+  .option("--oneline", "Show each submission on a single line")
+  .action((options) => {
+    submissions(options);
+  });
+
+const assignmentsCommand = program
+  .command("assignments")
+  .description("List the assignments you are invited to and their deadlines")
+  .option("-c, --choose", "Pick an assignment and save it to the configuration")
+  .option("-w, --watch", "Keep the deadline countdown updating")
+  .option("--password-stdin", "Read the password from stdin")
+  .action(async (options) => {
+    await assignments(options);
+  });
+
+assignmentsCommand
+  .command("show <code>")
+  .description("Show the details of an assignment")
+  .option("-u, --use", "Save this assignment to the configuration")
+  .option("--password-stdin", "Read the password from stdin")
+  .action(async (code, options) => {
+    await showAssignment(code, options);
+  });
+
+program
+  .command("login")
+  .description("Log in and save the session for later commands")
+  .option("--student-id <studentId>", "Student ID or email to log in with")
+  .option("--password-stdin", "Read the password from stdin")
+  .action(async (options) => {
+    await login(options);
+  });
+
+program
+  .command("logout")
+  .description("Remove the saved session")
+  .action(() => {
+    logout();
+  });
+
+program
+  .command("whoami")
+  .description("Show the logged in user")
+  .action(() => {
+    whoami();
+  });
+program
+  .parseAsync(process.argv)
+  .then(printResult)
+  .catch((error) => {
+    if (error instanceof commander.CommanderError) {
+      // Help and version end the same way
+      if (error.exitCode === 0) {
+        process.exit(EXIT_CODES.success);
+      }
+      // Commander already printed the message, and parsing may have
+      // failed before --json was seen
+      if (isJsonOutput() || process.argv.includes("--json")) {
+        enableJsonOutput();
+        fail("INVALID_ARGUMENT", error.message);
+      }
+      process.exit(EXIT_CODES.usage);
+    }
+    reportError(error);
+  });
\ No newline at end of file
@@ -1,20 +1,54 @@
 import * as fs from "fs";
 import * as path from "path";
+import {
+  HASH_ALGORITHMS,
+  HashAlgorithm,
+  writeRepositoryFormat,
+} from "../utils/objects.js";
+import { ContextOptions, createContext } from "../utils/context.js";
+import { SubsysError } from "../utils/errors.js";
 
-export function init(cwd = process.cwd()) {
+export interface InitResult {
+  path: string;
+  // Only set for a new repository, an existing one keeps its format
+  hashAlgorithm?: HashAlgorithm;
+  reinitialized: boolean;
+}
+
+export function init(
+  hashAlgorithm = "sha1",
+  context: ContextOptions = {}
+): InitResult {
+  const { cwd, logger } = createContext(context);
   const subsysPath = path.join(cwd, ".subsys");
 
+  if (!HASH_ALGORITHMS.includes(hashAlgorithm as HashAlgorithm)) {
+    throw new SubsysError(
+      "INVALID_ARGUMENT",
+      `Unsupported hash algorithm '${hashAlgorithm}'. Use sha1 or sha256.`
+    );
+  }
+
   try {
     fs.accessSync(subsysPath);
 
-    console.log("Reinitialized existing assignment repository.");
-    process.exit(0);
+    logger.info("Reinitialized existing assignment repository.");
+    return { path: subsysPath, reinitialized: true };
   } catch (error) {
     fs.mkdirSync(subsysPath, { recursive: true });
     fs.mkdirSync(path.join(subsysPath, "objects"));
 
     // Create files - HEAD
     fs.writeFileSync(path.join(subsysPath, "HEAD"), "ref: refs/heads/master");
-    console.log("Initialized empty assignment repository in " + subsysPath);
+    writeRepositoryFormat(cwd, {
+      version: 2,
+      hashAlgorithm: hashAlgorithm as HashAlgorithm,
+    });
+    logger.info("Initialized empty assignment repository in " + subsysPath);
+    return {
+      path: subsysPath,
+      hashAlgorithm: hashAlgorithm as HashAlgorithm,
+      reinitialized: false,
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatBytes, formatDate } from "../utils/format.js";
+import { LogEntry, readLogTrack } from "../utils/logTrack.js";
+import { readWorkspace } from "../utils/workspace.js";
+import { listBranches, readHead } from "../utils/refs.js";
+
+interface LogOptions {
+  limit?: string;
+  since?: string;
+  oneline?: boolean;
+}
+
+interface HistoryContext {
+  namesByHash: Map<string, string>;
+  // Branch names, and HEAD, pointing at each tree hash
+  labelsByHash: Map<string, string[]>;
+}
+
+function loadHistoryContext(cwd: string, entries: LogEntry[]): HistoryContext {
+  const head = readHead(cwd);
+  const currentBranch = head.ref?.replace(/^refs\/heads\//, "");
+  const labelsByHash = new Map<string, string[]>();
+  const addLabel = (hash: string, label: string) =>
+    labelsByHash.set(hash, [...(labelsByHash.get(hash) || []), label]);
+
+  if (head.hash) {
+    addLabel(head.hash, "HEAD");
+  }
+  for (const branch of listBranches(cwd)) {
+    if (branch.hash) {
+      addLabel(
+        branch.hash,
+        branch.name === currentBranch ? `HEAD -> ${branch.name}` : branch.name
+      );
+    }
+  }
+
+  return {
+    namesByHash: new Map(entries.map((entry) => [entry.SHA, entry.treeName])),
+    labelsByHash,
+  };
+}
+
+function printEntry(
+  entry: LogEntry,
+  options: LogOptions,
+  context: HistoryContext
+) {
+  const submitted = entry.submitted ? "submitted" : "not submitted";
+  const labels = context.labelsByHash.get(entry.SHA);
+  const decoration = labels ? ` [${labels.join(", ")}]` : "";
+
+  if (options.oneline) {
+    const message = entry.message ? ` ${entry.message}` : "";
+    console.log(
+      `${entry.SHA.slice(0, 7)} ${entry.treeName}${decoration} (${submitted})${message}`
+    );
+    return;
+  }
+
+  console.log(`snapshot ${entry.treeName}${decoration}`);
+  console.log(`Tree:      ${entry.SHA}`);
+  if (entry.parent) {
+    const parentName = context.namesByHash.get(entry.parent);
+    console.log(
+      `Parent:    ${parentName ?? "(deleted)"} ${entry.parent.slice(0, 7)}`
+    );
+  }
+  if (entry.author) {
+    console.log(`Author:    ${entry.author}`);
+  }
+  console.log(`Date:      ${formatDate(entry.createdAt)}`);
+  console.log(
+    `Files:     ${entry.fileCount ?? "unknown"}` +
+      (entry.totalSize !== undefined
+        ? ` (${formatBytes(entry.totalSize)})`
+        : "")
+  );
+  console.log(
+    `Status:    ${submitted}` +
+      (entry.submittedAt ? ` on ${formatDate(entry.submittedAt)}` : "")
+  );
+  if (entry.message) {
+    console.log("");
+    console.log(`    ${entry.message}`);
+  }
+  console.log("");
+}
+
+export function log(options: LogOptions, cwd = process.cwd()) {
+  const subsysPath = path.join(cwd, ".subsys");
+
+  if (!fs.existsSync(subsysPath)) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  let limit: number | undefined;
+  if (options.limit !== undefined) {
+    limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1) {
+      console.error("--limit must be a positive number.");
+      process.exit(1);
+    }
+  }
+
+  let since: Date | undefined;
+  if (options.since !== undefined) {
+    since = new Date(options.since);
+    if (isNaN(since.getTime())) {
+      console.error(`Invalid date for --since: '${options.since}'.`);
+      process.exit(1);
+    }
+  }
+
+  const allEntries = readLogTrack(cwd);
+  const context = loadHistoryContext(cwd, allEntries);
+  let entries = [...allEntries].reverse();
+
+  if (since) {
+    const sinceTime = since.getTime();
+    entries = entries.filter(
+      (entry) =>
+        entry.createdAt !== undefined &&
+        new Date(entry.createdAt).getTime() >= sinceTime
+    );
+  }
+
+  if (limit !== undefined) {
+    entries = entries.slice(0, limit);
+  }
+
+  if (entries.length === 0) {
+    console.log("No snapshots found.");
+    return;
+  }
+
+  const workspace = readWorkspace(cwd);
+
+  if (Object.keys(workspace).length === 0) {
+    entries.forEach((entry) => printEntry(entry, options, context));
+    return;
+  }
+
+  // Workspace history is grouped by assignment, whole-repository snapshots last
+  const groups = [
+    ...new Set([
+      ...Object.keys(workspace),
+      ...entries.flatMap((entry) => (entry.assignment ? [entry.assignment] : [])),
+    ]),
+    undefined,
+  ];
+  for (const assignment of groups) {
+    const group = entries.filter((entry) => entry.assignment === assignment);
+    if (group.length === 0) {
+      continue;
+    }
+
+    console.log(
+      assignment
+        ? `== Assignment ${assignment}` +
+            (workspace[assignment] ? ` (${workspace[assignment]}/) ==` : " ==")
+        : "== Whole repository =="
+    );
+    console.log("");
+    group.forEach((entry) => printEntry(entry, options, context));
+    if (options.oneline) {
+      console.log("");
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import axios from "axios";
+import {
+  PasswordOptions,
+  authenticate,
+  clearSession,
+  getBackendUrl,
+  getCredentialsFile,
+  getSession,
+  isSessionExpired,
+  promptEmailOrId,
+  resolvePassword,
+} from "../utils/auth.js";
+import { formatDate } from "../utils/format.js";
+import { getSetting } from "../utils/settings.js";
+
+interface LoginOptions extends PasswordOptions {
+  studentId?: string;
+}
+
+export async function login(options: LoginOptions, cwd = process.cwd()) {
+  const backendUrl = getBackendUrl(cwd);
+  const configuredId = getSetting("studentId", cwd);
+  const emailOrId =
+    options.studentId ||
+    (configuredId !== undefined ? String(configuredId) : undefined) ||
+    (await promptEmailOrId());
+
+  try {
+    const password = await resolvePassword(options);
+    const session = await authenticate(backendUrl, emailOrId, password);
+    const name = session.user
+      ? `${session.user.firstName} ${session.user.lastName}`
+      : emailOrId;
+
+    console.log(`Logged in as ${name}.`);
+    if (session.expiresAt) {
+      console.log(`Session expires ${formatDate(session.expiresAt)}.`);
+    }
+    console.log(`Credentials saved to ${getCredentialsFile()}`);
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.error("Error during authentication:", error.response?.data);
+    } else {
+      console.error("Error during authentication:", (error as Error).message);
+    }
+    process.exit(1);
+  }
+}
+
+export function logout(cwd = process.cwd()) {
+  const backendUrl = getBackendUrl(cwd);
+
+  if (clearSession(backendUrl)) {
+    console.log(`Logged out of ${backendUrl}.`);
+  } else {
+    console.log("Not logged in.");
+  }
+}
+
+export function whoami(cwd = process.cwd()) {
+  const backendUrl = getBackendUrl(cwd);
+  const session = getSession(backendUrl);
+
+  if (!session || isSessionExpired(session)) {
+    console.log(
+      session ? "Session has expired. Use 'subsys login'." : "Not logged in."
+    );
+    process.exit(1);
+  }
+
+  if (session.user) {
+    console.log(`${session.user.firstName} ${session.user.lastName}`);
+    console.log(`Email:    ${session.user.email}`);
+    console.log(`Role:     ${session.user.role}`);
+  }
+  console.log(`Login:    ${session.emailOrId}`);
+  console.log(`Backend:  ${backendUrl}`);
+  console.log(
+    `Expires:  ${session.expiresAt ? formatDate(session.expiresAt) : "unknown"}`
+  );
+}
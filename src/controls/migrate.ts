@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import {
+  HASH_ALGORITHMS,
+  HashAlgorithm,
+  RepositoryFormat,
+  getMigrationMarker,
+  readObject,
+  readRepositoryFormat,
+  serializeTree,
+  writeObject,
+  writeRepositoryFormat,
+} from "../utils/objects.js";
+import { checkRepository, hasErrors, printFsckProblems } from "../utils/fsck.js";
+import { decompressSnapshot, getSnapshotFile } from "../utils/recursive.js";
+import { readLogTrack, writeLogTrack } from "../utils/logTrack.js";
+import { TreeObject } from "../utils/tree.js";
+import { remapRefs } from "../utils/refs.js";
+import { remapSubmissions } from "../utils/submissions.js";
+import { remapQueue } from "../utils/queue.js";
+
+interface MigrateOptions {
+  hash?: string;
+}
+
+function convertTree(
+  cwd: string,
+  tree: TreeObject,
+  from: RepositoryFormat,
+  to: RepositoryFormat,
+  objectsDir: string
+): TreeObject {
+  const children = (tree.children || []).map((child): TreeObject => {
+    if (child.type === "tree") {
+      return convertTree(cwd, child, from, to, objectsDir);
+    }
+
+    const content = readObject(cwd, child.hash, from)!;
+    return {
+      type: "blob",
+      name: child.name,
+      hash: writeObject(cwd, "blob", content, to, objectsDir),
+      size: content.length,
+    };
+  });
+
+  return {
+    type: "tree",
+    name: tree.name,
+    hash: writeObject(cwd, "tree", serializeTree(children), to, objectsDir),
+    children,
+  };
+}
+
+function getMigrationDir(cwd: string) {
+  return path.dirname(getMigrationMarker(cwd));
+}
+
+interface MigrationMarker {
+  format: RepositoryFormat;
+  snapshots: string[];
+  hashes: [string, string][];
+}
+
+// Moves the staged objects and snapshots into place and renames every hash
+function commitMigration(cwd: string, marker: MigrationMarker) {
+  const subsysDir = path.join(cwd, ".subsys");
+  const objectsDir = path.join(subsysDir, "objects");
+  const migratingDir = path.join(subsysDir, "objects.migrating");
+  const backupDir = path.join(subsysDir, "objects.v1");
+  const stagedSnapshotsDir = path.join(getMigrationDir(cwd), "snapshots");
+
+  // An earlier run may already have swapped the stores
+  if (fs.existsSync(migratingDir)) {
+    if (fs.existsSync(objectsDir)) {
+      fs.rmSync(backupDir, { recursive: true, force: true });
+      fs.renameSync(objectsDir, backupDir);
+    }
+    fs.renameSync(migratingDir, objectsDir);
+  }
+
+  for (const snapshotName of marker.snapshots) {
+    const stagedFile = path.join(stagedSnapshotsDir, `${snapshotName}.gz`);
+    if (fs.existsSync(stagedFile)) {
+      fs.renameSync(stagedFile, getSnapshotFile(cwd, snapshotName));
+    }
+  }
+
+  // Parents, refs, receipts and queued items name snapshots by tree hash,
+  // which just changed. Old and new hashes never collide, so remapping
+  // twice does no harm.
+  const hashes = new Map(marker.hashes);
+  const logTrack = readLogTrack(cwd);
+  for (const entry of logTrack) {
+    entry.SHA = hashes.get(entry.SHA) ?? entry.SHA;
+    if (entry.parent && hashes.has(entry.parent)) {
+      entry.parent = hashes.get(entry.parent);
+    }
+  }
+  writeLogTrack(cwd, logTrack);
+  remapRefs(cwd, hashes);
+  remapSubmissions(cwd, hashes);
+  remapQueue(cwd, hashes);
+
+  writeRepositoryFormat(cwd, marker.format);
+  fs.rmSync(getMigrationDir(cwd), { recursive: true, force: true });
+}
+
+export function migrate(options: MigrateOptions, cwd = process.cwd()) {
+  const subsysDir = path.join(cwd, ".subsys");
+
+  if (!fs.existsSync(subsysDir)) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  const migratingDir = path.join(subsysDir, "objects.migrating");
+  const backupDir = path.join(subsysDir, "objects.v1");
+  const markerFile = getMigrationMarker(cwd);
+
+  if (fs.existsSync(markerFile)) {
+    const marker: MigrationMarker = JSON.parse(fs.readFileSync(markerFile, "utf-8"));
+    console.log("Finishing an interrupted migration...");
+    commitMigration(cwd, marker);
+    console.log(
+      `Migrated ${marker.snapshots.length} snapshot(s) to object format version 2 (${marker.format.hashAlgorithm}).`
+    );
+    return;
+  }
+
+  const hashAlgorithm = (options.hash || "sha1") as HashAlgorithm;
+  if (!HASH_ALGORITHMS.includes(hashAlgorithm)) {
+    console.error(`Unsupported hash algorithm '${options.hash}'. Use sha1 or sha256.`);
+    process.exit(1);
+  }
+
+  const from = readRepositoryFormat(cwd);
+  if (from.version === 2) {
+    console.log("Repository already uses object format version 2.");
+    return;
+  }
+
+  const report = checkRepository(cwd);
+  if (hasErrors(report)) {
+    printFsckProblems(report);
+    console.error("Repository check failed, fix these problems before migrating.");
+    process.exit(1);
+  }
+
+  const to: RepositoryFormat = { version: 2, hashAlgorithm };
+  const stagedSnapshotsDir = path.join(getMigrationDir(cwd), "snapshots");
+
+  // Leftovers of a run interrupted before it was ready are started over
+  fs.rmSync(migratingDir, { recursive: true, force: true });
+  fs.rmSync(getMigrationDir(cwd), { recursive: true, force: true });
+  fs.mkdirSync(migratingDir, { recursive: true });
+  fs.mkdirSync(stagedSnapshotsDir, { recursive: true });
+
+  // Stage every snapshot and its objects without touching the live ones
+  const logTrack = readLogTrack(cwd);
+  const hashes = new Map<string, string>();
+  for (const entry of logTrack) {
+    const snapshot = decompressSnapshot(getSnapshotFile(cwd, entry.treeName))!;
+    const tree = convertTree(cwd, snapshot.tree, from, to, migratingDir);
+
+    fs.writeFileSync(
+      path.join(stagedSnapshotsDir, `${entry.treeName}.gz`),
+      zlib.gzipSync(Buffer.from(JSON.stringify({ version: 2, tree: tree.hash })))
+    );
+    hashes.set(entry.SHA, tree.hash);
+  }
+
+  const marker: MigrationMarker = {
+    format: to,
+    snapshots: logTrack.map((entry) => entry.treeName),
+    hashes: [...hashes],
+  };
+  fs.writeFileSync(markerFile, JSON.stringify(marker, null, 2));
+  commitMigration(cwd, marker);
+
+  console.log(
+    `Migrated ${logTrack.length} snapshot(s) to object format version 2 (${hashAlgorithm}).`
+  );
+  if (report.orphanedObjects.length > 0) {
+    console.log(
+      `${report.orphanedObjects.length} unreferenced object(s) were not carried over.`
+    );
+  }
+  if (fs.existsSync(backupDir)) {
+    console.log(
+      `The previous object store was kept in ${backupDir}, delete it once you are satisfied.`
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatDate } from "../utils/format.js";
+import { markSubmitted } from "../utils/logTrack.js";
+import {
+  getQueuedPayload,
+  readQueue,
+  removeQueuedSubmission,
+  writeQueuedSubmission,
+} from "../utils/queue.js";
+import {
+  describeError,
+  isConnectionError,
+  isTransientError,
+  withRetry,
+} from "../utils/retry.js";
+import { getSubmissionId, recordSubmission } from "../utils/submissions.js";
+import { postSubmission } from "../utils/upload.js";
+
+interface PushOptions {
+  retries?: string;
+}
+
+export async function push(options: PushOptions, cwd = process.cwd()) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  let retries = 5;
+  if (options.retries !== undefined) {
+    retries = parseInt(options.retries, 10);
+    if (isNaN(retries) || retries < 0) {
+      console.error("--retries must be zero or a positive number.");
+      process.exit(1);
+    }
+  }
+
+  const queue = readQueue(cwd);
+  if (queue.length === 0) {
+    console.log("Nothing to push, the submission queue is empty.");
+    return;
+  }
+
+  let pushed = 0;
+  for (const item of queue) {
+    console.log(
+      `Pushing '${item.snapshot}' (attempted ${formatDate(item.attemptedAt)})...`
+    );
+
+    try {
+      const responseData = await withRetry(
+        () => postSubmission(item.backendUrl, getQueuedPayload(cwd, item)),
+        {
+          retries,
+          // Only resent when the server cannot have received it
+          shouldRetry: isConnectionError,
+          onRetry: (error, attempt, delay) =>
+            console.warn(
+              `  ${describeError(error)}, retrying in ${delay / 1000}s (attempt ${attempt} of ${retries})...`
+            ),
+        }
+      );
+
+      markSubmitted(cwd, item.snapshot);
+      recordSubmission(cwd, {
+        snapshot: item.snapshot,
+        treeHash: item.treeHash,
+        assignmentCode: item.assignmentCode,
+        submittedAt: new Date().toISOString(),
+        backendUrl: item.backendUrl,
+        uploadFormat: item.uploadFormat,
+        late: item.fields.late === "true" || undefined,
+        submissionId: getSubmissionId(responseData),
+        response: responseData,
+      });
+      removeQueuedSubmission(cwd, item.id);
+      pushed++;
+      console.log(`  submitted '${item.snapshot}'`);
+    } catch (error) {
+      item.attempts++;
+      item.lastError = describeError(error);
+      writeQueuedSubmission(cwd, item);
+      console.error(`  failed: ${item.lastError}`);
+
+      // The rest of the queue would only wait out the same backoff
+      if (isTransientError(error)) {
+        console.error("The backend is still unreachable.");
+        break;
+      }
+    }
+  }
+
+  const remaining = queue.length - pushed;
+  console.log(
+    `Pushed ${pushed} queued submission(s), ${remaining} left in the queue.`
+  );
+  if (remaining > 0) {
+    process.exit(1);
+  }
+}
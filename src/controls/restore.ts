@@ -0,0 +1,225 @@
+import * as fs from "fs";
+import * as path from "path";
+import { calculateTreeHash } from "../utils/tree.js";
+import { loadIgnoreMatcher, mountIgnoreMatcher } from "../utils/ignore.js";
+import {
+  getObjectFile,
+  readObject,
+  readRepositoryFormat,
+} from "../utils/objects.js";
+import { readSnapshotTree } from "../utils/recursive.js";
+import { flattenTree } from "../utils/diff.js";
+import { getHeadEntry, readLogTrack } from "../utils/logTrack.js";
+import { getSnapshotRoot } from "../utils/workspace.js";
+import { ContextOptions, createContext } from "../utils/context.js";
+import { SubsysError } from "../utils/errors.js";
+
+export interface RestoreOptions {
+  output?: string;
+  dryRun?: boolean;
+  delete?: boolean;
+  force?: boolean;
+}
+
+export interface RestoreResult {
+  snapshot: string;
+  restored: string[];
+  deleted: string[];
+  // Files whose local changes were overwritten with --force
+  conflicts: string[];
+  dryRun: boolean;
+}
+
+function matchesPaths(filePath: string, paths: string[]): boolean {
+  return (
+    paths.length === 0 ||
+    paths.some((p) => filePath === p || filePath.startsWith(p + "/"))
+  );
+}
+
+function removeEmptyParents(filePath: string, rootDir: string) {
+  let dir = path.dirname(filePath);
+
+  while (dir.startsWith(rootDir) && dir !== rootDir) {
+    if (fs.readdirSync(dir).length > 0) {
+      return;
+    }
+    fs.rmdirSync(dir);
+    dir = path.dirname(dir);
+  }
+}
+
+export async function restore(
+  snapshotName: string,
+  paths: string[],
+  options: RestoreOptions = {},
+  context: ContextOptions = {}
+): Promise<RestoreResult> {
+  const { cwd, logger } = createContext(context);
+
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    throw new SubsysError(
+      "NOT_INITIALIZED",
+      "Repository is not initialized. Use 'subsys init' to initialize."
+    );
+  }
+
+  const tree = readSnapshotTree(cwd, snapshotName, logger);
+  if (!tree) {
+    throw new SubsysError("NOT_FOUND", `Snapshot '${snapshotName}' not found.`);
+  }
+
+  // Workspace snapshots restore into their assignment's directory
+  const snapshotRoot = getSnapshotRoot(cwd, snapshotName);
+  const targetDir = options.output
+    ? path.resolve(cwd, options.output)
+    : snapshotRoot;
+  const restoringInPlace = targetDir === snapshotRoot;
+
+  // Paths are matched against the posix-style names stored in the snapshot
+  const selectedPaths = paths.map((p) =>
+    path
+      .relative(snapshotRoot, path.resolve(cwd, p))
+      .split(path.sep)
+      .join("/")
+      .replace(/\/+$/, "")
+  );
+
+  const snapshotFiles = new Map(
+    [...flattenTree(tree)].filter(([filePath]) =>
+      matchesPaths(filePath, selectedPaths)
+    )
+  );
+
+  if (snapshotFiles.size === 0) {
+    throw new SubsysError(
+      "NOT_FOUND",
+      "No files in the snapshot match the given paths."
+    );
+  }
+
+  const missingObjects = [...snapshotFiles].filter(
+    ([, hash]) => !fs.existsSync(getObjectFile(cwd, hash))
+  );
+  if (missingObjects.length > 0) {
+    const missingPaths = missingObjects.map(([filePath]) => filePath);
+    throw new SubsysError(
+      "REPOSITORY_DAMAGED",
+      `Cannot restore, objects are missing for: ${missingPaths.join(", ")}`,
+      { details: missingPaths }
+    );
+  }
+
+  // The target is hashed with the rules snap uses for the snapshot root, so
+  // --delete leaves files that snap ignores alone
+  const format = readRepositoryFormat(cwd);
+  const repoMatcher = loadIgnoreMatcher(cwd);
+  const matcher = restoringInPlace
+    ? repoMatcher
+    : mountIgnoreMatcher(repoMatcher, targetDir, snapshotRoot);
+  const currentFiles = fs.existsSync(targetDir)
+    ? flattenTree(await calculateTreeHash(targetDir, matcher, format))
+    : new Map<string, string>();
+
+  // Files recorded unchanged in the current snapshot can be replaced safely
+  const headEntry = getHeadEntry(
+    cwd,
+    readLogTrack(cwd).find((entry) => entry.treeName === snapshotName)
+      ?.assignment
+  );
+  const headTree =
+    restoringInPlace && headEntry
+      ? readSnapshotTree(cwd, headEntry.treeName, logger)
+      : null;
+  const headFiles = headTree
+    ? flattenTree(headTree)
+    : new Map<string, string>();
+
+  const toWrite: string[] = [];
+  const toDelete: string[] = [];
+  const conflicts: string[] = [];
+
+  const checkConflict = (filePath: string) => {
+    const currentHash = currentFiles.get(filePath);
+    if (currentHash !== undefined && headFiles.get(filePath) !== currentHash) {
+      conflicts.push(filePath);
+    }
+  };
+
+  for (const [filePath, hash] of snapshotFiles) {
+    if (currentFiles.get(filePath) === hash) {
+      continue;
+    }
+    checkConflict(filePath);
+    toWrite.push(filePath);
+  }
+
+  if (options.delete) {
+    for (const filePath of currentFiles.keys()) {
+      if (
+        !snapshotFiles.has(filePath) &&
+        matchesPaths(filePath, selectedPaths)
+      ) {
+        checkConflict(filePath);
+        toDelete.push(filePath);
+      }
+    }
+  }
+
+  if (conflicts.length > 0 && !options.force && !options.dryRun) {
+    logger.error(
+      "Your local changes to the following files would be overwritten by restore:"
+    );
+    conflicts.forEach((filePath) => logger.error(`  ${filePath}`));
+    throw new SubsysError(
+      "CONFLICT",
+      "Local changes would be lost. Snap your changes first, or use --force to discard them.",
+      { details: conflicts }
+    );
+  }
+
+  const result: RestoreResult = {
+    snapshot: snapshotName,
+    restored: toWrite,
+    deleted: toDelete,
+    conflicts,
+    dryRun: !!options.dryRun,
+  };
+
+  if (toWrite.length === 0 && toDelete.length === 0) {
+    logger.info("Nothing to restore, files already match the snapshot.");
+    return result;
+  }
+
+  const prefix = options.dryRun ? "would " : "";
+
+  for (const filePath of toWrite) {
+    const conflictNote = conflicts.includes(filePath) ? " (local changes)" : "";
+    logger.info(`${prefix}restore ${filePath}${conflictNote}`);
+
+    if (!options.dryRun) {
+      const targetFile = path.join(targetDir, filePath);
+      const content = readObject(cwd, snapshotFiles.get(filePath)!, format);
+      fs.mkdirSync(path.dirname(targetFile), { recursive: true });
+      fs.writeFileSync(targetFile, content!);
+    }
+  }
+
+  for (const filePath of toDelete) {
+    const conflictNote = conflicts.includes(filePath) ? " (local changes)" : "";
+    logger.info(`${prefix}delete ${filePath}${conflictNote}`);
+
+    if (!options.dryRun) {
+      const targetFile = path.join(targetDir, filePath);
+      fs.unlinkSync(targetFile);
+      removeEmptyParents(targetFile, targetDir);
+    }
+  }
+
+  logger.info(
+    options.dryRun
+      ? `Dry run: ${toWrite.length} file(s) would be restored and ${toDelete.length} deleted.`
+      : `Restored ${toWrite.length} file(s) and deleted ${toDelete.length} from snapshot '${snapshotName}'.`
+  );
+  return result;
+}
@@ -1,23 +1,54 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as zlib from "zlib";
-import * as crypto from "crypto";
-import { promisify } from "util";
-import * as glob from "glob";
-
-const readdir = promisify(fs.readdir);
-const stat = promisify(fs.stat);
-
-interface TreeObject {
-  type: "tree" | "blob";
-  name: string;
-  hash: string;
-  children?: TreeObject[];
+import {
+  TreeObject,
+  WalkStats,
+  calculateTreeHash,
+  summarizeTree,
+} from "../utils/tree.js";
+import { loadStatCache, saveStatCache } from "../utils/statCache.js";
+import { formatBytes } from "../utils/format.js";
+import { readRepositoryFormat, storeTree } from "../utils/objects.js";
+import {
+  getLatestEntry,
+  isValidSnapshotName,
+  readLogTrack,
+  writeLogTrack,
+} from "../utils/logTrack.js";
+import { getCurrentBranch, resolveHead, updateHead } from "../utils/refs.js";
+import { loadIgnoreMatcher, toRelativePath } from "../utils/ignore.js";
+import { getAssignmentRoot } from "../utils/workspace.js";
+import { getSetting } from "../utils/settings.js";
+import { verifyHook } from "../utils/hooks.js";
+import { checkPolicy, formatViolation, loadPolicy } from "../utils/policy.js";
+import { ContextOptions, Logger, createContext } from "../utils/context.js";
+import { SubsysError } from "../utils/errors.js";
+
+export interface SnapOptions {
+  message?: string;
+  verbose?: boolean;
+  assignment?: string;
+  // False when --no-verify is given
+  verify?: boolean;
+}
+
+export interface SnapResult {
+  snapshot: string;
+  treeHash: string;
+  parent?: string;
+  branch?: string;
+  assignment?: string;
+  fileCount: number;
+  totalSize: number;
+  // Submit refuses the snapshot while these remain
+  policyViolations: string[];
 }
 
 async function isDuplicateName(
   snapshotDir: string,
-  name: string
+  name: string,
+  logger: Logger
 ): Promise<boolean> {
   const logTrackPath = path.join(snapshotDir, "logTrack.json");
 
@@ -33,14 +64,15 @@ async function isDuplicateName(
 
     return false;
   } catch (error) {
-    console.error("Error checking for duplicate name:", error);
+    logger.error(`Error checking for duplicate name: ${(error as Error).message}`);
     return true;
   }
 }
 
 async function isDuplicateSHA(
   snapshotDir: string,
-  currentHash: string
+  currentHash: string,
+  logger: Logger
 ): Promise<boolean> {
   const logTrackPath = path.join(snapshotDir, "logTrack.json");
 
@@ -54,7 +86,7 @@ async function isDuplicateSHA(
         (entry: { SHA: string }) => entry.SHA === currentHash
       );
       if (isUpToDate) {
-        console.log("Everything is up to date.");
+        logger.info("Everything is up to date.");
       }
 
       return isUpToDate;
@@ -62,21 +94,23 @@ async function isDuplicateSHA(
 
     return false;
   } catch (error) {
-    console.error("Error checking for duplicate SHA:", error);
+    logger.error(`Error checking for duplicate SHA: ${(error as Error).message}`);
     return true; // Treat error as duplicate to prevent unintended behavior
   }
 }
 
-export async function snap(cwd: string, snapshotName: string) {
-  const sanitizedSnapshotName = snapshotName
-    .replace(/[^a-zA-Z0-9]+/g, "-")
-    .toLowerCase();
+export async function snap(
+  snapshotName: string,
+  options: SnapOptions = {},
+  context: ContextOptions = {}
+): Promise<SnapResult> {
+  const { cwd, logger } = createContext(context);
 
-  if (sanitizedSnapshotName !== snapshotName) {
-    console.error(
+  if (!isValidSnapshotName(snapshotName)) {
+    throw new SubsysError(
+      "INVALID_ARGUMENT",
       "Snapshot name contains invalid characters. Please use a slug."
     );
-    return;
   }
 
   const subsysDir = path.join(cwd, ".subsys");
@@ -91,226 +125,165 @@ export async function snap(cwd: string, snapshotName: string) {
     fs.mkdirSync(objectsDir, { recursive: true });
   }
 
-  const ignoreList = await getIgnoreList(cwd);
-
-  const treeObject = await calculateTreeHash(cwd, ignoreList);
-
-  async function calculateFileHash(filePath: string): Promise<string> {
-    const fileContent = await fs.promises.readFile(filePath);
-    const hash = crypto.createHash("sha1");
-    hash.update(fileContent);
-    return hash.digest("hex");
-  }
-
-  async function calculateTreeHash(
-    directoryPath: string,
-    ignoreList: Set<string>
-  ): Promise<TreeObject> {
-    const entries = await readdir(directoryPath);
-
-    const treeObject: TreeObject = {
-      type: "tree",
-      name: "",
-      hash: "",
-      children: [],
-    };
-
-    for (const entry of entries) {
-      const entryPath = path.join(directoryPath, entry);
-      const isDirectory = await stat(entryPath);
-
-      if (
-        entry === ".subsys" ||
-        entry === "node_modules" ||
-        entry === "config.json" ||
-        ignoreList.has(entry)
-      ) {
-        continue;
-      }
-
-      const childObject: TreeObject = {
-        type: isDirectory.isDirectory() ? "tree" : "blob",
-        name: entry,
-        hash: isDirectory.isDirectory()
-          ? (await calculateTreeHash(entryPath, ignoreList)).hash
-          : await calculateFileHash(entryPath),
-      };
-
-      if (isDirectory.isDirectory()) {
-        // Recursively calculate tree hash for subdirectories
-        const subTreeObject = await calculateTreeHash(entryPath, ignoreList);
-        childObject.children = subTreeObject.children;
-      }
-
-      treeObject.children!.push(childObject);
+  // In workspace mode only the assignment's subdirectory is snapped
+  let sourceDir = cwd;
+  if (options.assignment) {
+    const assignmentRoot = getAssignmentRoot(cwd, options.assignment);
+    if (!assignmentRoot || !fs.existsSync(assignmentRoot)) {
+      throw new SubsysError(
+        "NOT_FOUND",
+        assignmentRoot
+          ? `Directory '${path.relative(cwd, assignmentRoot)}' of assignment '${options.assignment}' does not exist.`
+          : `Assignment '${options.assignment}' is not in the workspace. Use 'subsys workspace add'.`
+      );
     }
+    sourceDir = assignmentRoot;
+  }
 
-    treeObject.children!.sort((a, b) => a.name.localeCompare(b.name));
+  // Ignore rules and cached hashes stay relative to the repository root
+  const matcher = loadIgnoreMatcher(cwd);
+  const format = readRepositoryFormat(cwd);
+  const cache = loadStatCache(cwd, format);
+  const walkStats: WalkStats = { filesHashed: 0, filesCached: 0, bytesHashed: 0 };
 
-    // Concatenate and hash the serialized tree objects
-    const serializedTree = treeObject
-      .children!.map((obj) => `${obj.type} ${obj.name}\0${obj.hash}`)
-      .join("");
-    const hash = crypto.createHash("sha1");
-    hash.update(serializedTree);
+  const walkStart = Date.now();
+  const treeObject = await calculateTreeHash(sourceDir, matcher, format, {
+    cache,
+    stats: walkStats,
+  });
+  saveStatCache(cwd, cache, toRelativePath(matcher, sourceDir));
+  const walkTime = Date.now() - walkStart;
 
-    treeObject.hash = hash.digest("hex");
+  // Check if snapshot with the same name already exists
+  if (await isDuplicateName(snapshotDir, snapshotName, logger)) {
+    throw new SubsysError(
+      "ALREADY_EXISTS",
+      "Snapshot with the same name already exists."
+    );
+  }
 
-    return treeObject;
+  // Check if snapshot with the same tree hash already exists
+  if (await isDuplicateSHA(snapshotDir, treeObject.hash, logger)) {
+    throw new SubsysError(
+      "UP_TO_DATE",
+      "Snapshot with the same content already exists."
+    );
   }
 
-  // Check if snapshot with the same name already exists
-  if (await isDuplicateName(snapshotDir, sanitizedSnapshotName)) {
-    console.error("Snapshot with the same name already exists.");
-    return;
+  const assignmentCode =
+    options.assignment ?? getSetting("assignmentCode", cwd)?.toString();
+
+  // Policy violations only block submitting, a snapshot is still useful
+  let violations: string[] = [];
+  try {
+    const policy = loadPolicy(cwd, assignmentCode);
+    violations = (policy ? checkPolicy(treeObject, policy) : []).map(
+      formatViolation
+    );
+    if (violations.length > 0) {
+      logger.warn(
+        "Warning: the snapshot breaks the submission policy, submit will refuse it:"
+      );
+      violations.forEach((violation) => logger.warn(`  ${violation}`));
+    }
+  } catch (error) {
+    logger.warn(`Warning: ${(error as Error).message}`);
   }
 
-  // Check if snapshot with the same tree hash already exists
-  if (await isDuplicateSHA(snapshotDir, treeObject.hash)) {
-    console.error("Snapshot with the same content already exists.");
-    return;
+  if (
+    options.verify !== false &&
+    !(await verifyHook(
+      cwd,
+      "pre-snap",
+      sourceDir,
+      {
+        SUBSYS_SNAPSHOT: snapshotName,
+        SUBSYS_TREE_HASH: treeObject.hash,
+        SUBSYS_ASSIGNMENT_CODE: assignmentCode,
+      },
+      logger
+    ))
+  ) {
+    throw new SubsysError(
+      "HOOK_FAILED",
+      `Snapshot '${snapshotName}' was not created.`
+    );
   }
 
-  const snapshotData: {
-    tree: TreeObject;
-    files: { name: string; hash: string }[];
-  } = {
-    tree: treeObject,
-    files: [],
-  };
+  // Version 2 snapshots reference the root tree object instead of embedding it
+  const snapshotData:
+    | { version: 2; tree: string }
+    | { tree: TreeObject; files: { name: string; hash: string }[] } =
+    format.version === 2
+      ? { version: 2, tree: treeObject.hash }
+      : { tree: treeObject, files: [] };
 
-  const snapshotFile = path.join(snapshotDir, sanitizedSnapshotName + ".gz");
+  const snapshotFile = path.join(snapshotDir, snapshotName + ".gz");
+  let result: SnapResult;
 
   try {
+    // Store objects first so a snapshot file never points at missing objects
+    const storeStart = Date.now();
+    const storeStats = storeTree(cwd, treeObject, sourceDir, format);
+    const storeTime = Date.now() - storeStart;
+
+    if (options.verbose) {
+      logger.info(
+        `Scanned ${walkStats.filesHashed + walkStats.filesCached} file(s) in ${walkTime} ms: ` +
+          `${walkStats.filesHashed} hashed (${formatBytes(walkStats.bytesHashed)}), ` +
+          `${walkStats.filesCached} unchanged since the last scan.`
+      );
+      logger.info(
+        `Stored ${storeStats.written} new object(s) in ${storeTime} ms, ` +
+          `${storeStats.skipped} already present.`
+      );
+    }
+
     const serializedSnapshot = JSON.stringify(snapshotData);
     const compressedSnapshot = zlib.gzipSync(Buffer.from(serializedSnapshot));
     fs.writeFileSync(snapshotFile, compressedSnapshot);
 
     // Update logTrack.json
-    const logTrackPath = path.join(snapshotDir, "logTrack.json");
-    const logTrack = fs.existsSync(logTrackPath)
-      ? JSON.parse(fs.readFileSync(logTrackPath, "utf-8"))
-      : [];
+    const logTrack = readLogTrack(cwd);
+    const { fileCount, totalSize } = summarizeTree(treeObject);
+    // Repositories from before refs existed continue from their latest snapshot
+    const parent = resolveHead(cwd) ?? getLatestEntry(cwd)?.SHA;
+    const author = getSetting("studentId", cwd);
 
     logTrack.push({
       treeName: snapshotName,
       SHA: treeObject.hash,
+      createdAt: new Date().toISOString(),
+      fileCount,
+      totalSize,
+      message: options.message,
+      author: author !== undefined ? String(author) : undefined,
+      parent,
+      assignment: options.assignment,
+      submitted: false,
     });
 
-    fs.writeFileSync(logTrackPath, JSON.stringify(logTrack, null, 2));
-
+    writeLogTrack(cwd, logTrack);
+    updateHead(cwd, treeObject.hash);
+
+    result = {
+      snapshot: snapshotName,
+      treeHash: treeObject.hash,
+      parent,
+      branch: getCurrentBranch(cwd),
+      assignment: options.assignment,
+      fileCount,
+      totalSize,
+      policyViolations: violations,
+    };
   } catch (error: unknown) {
-    console.error(`Error creating snapshot file '${snapshotFile}':`, error);
-    return;
-  }
-
-  async function getIgnoreList(cwd: string): Promise<Set<string>> {
-    const subsysIgnorePath = path.join(cwd, ".subsysignore");
-    const ignoreList = new Set<string>();
-
-    try {
-      if (fs.existsSync(subsysIgnorePath)) {
-        const ignoreContent = await fs.promises.readFile(
-          subsysIgnorePath,
-          "utf-8"
-        );
-        const lines = ignoreContent.split("\n");
-
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-
-          if (trimmedLine !== "") {
-            // Check if the line contains a glob pattern
-            if (trimmedLine.includes("*")) {
-              // Use glob to expand the pattern and add all matching files/directories
-              const matchingFiles = glob.sync(trimmedLine, { cwd });
-              matchingFiles.forEach((match) => ignoreList.add(match));
-            } else {
-              ignoreList.add(trimmedLine);
-            }
-          }
-        }
-      }
-    } catch (error: unknown) {
-      throw new Error("Error");
-    }
-
-    return ignoreList;
-  }
-
-  async function processEntry(
-    entryPath: string,
-    baseDir: string,
-    objectsDir: string,
-    treeObjects: TreeObject[],
-    snapshotData: {
-      tree: TreeObject;
-      files: { name: string; hash: string }[];
-    }
-  ) {
-    const isFile = await stat(entryPath);
-    const relativePath = path.relative(baseDir, entryPath);
-
-    if (isFile.isFile()) {
-      const fileHash = await calculateFileHash(entryPath);
-
-      // Store the file in the objects directory
-      const objectFile = path.join(
-        objectsDir,
-        fileHash.substring(0, 2),
-        fileHash.slice(2)
-      );
-      if (!fs.existsSync(path.dirname(objectFile))) {
-        fs.mkdirSync(path.dirname(objectFile), { recursive: true });
-      }
-      const fileContent = fs.readFileSync(entryPath);
-      fs.writeFileSync(objectFile, fileContent);
-
-      treeObjects.push({
-        type: "blob",
-        name: relativePath,
-        hash: fileHash,
-      });
-
-      snapshotData.files.push({
-        name: relativePath,
-        hash: fileHash,
-      });
-    } else {
-      // It's a directory, so process its contents recursively
-      const entries = await readdir(entryPath);
-      const subTreeObjects: TreeObject[] = [];
-
-      for (const subEntry of entries) {
-        const subEntryPath = path.join(entryPath, subEntry);
-        await processEntry(
-          subEntryPath,
-          baseDir,
-          objectsDir,
-          subTreeObjects,
-          snapshotData
-        );
-      }
-
-      treeObjects.push({
-        type: "tree",
-        name: relativePath,
-        hash: "",
-        children: subTreeObjects,
-      });
-    }
+    throw new SubsysError(
+      "FAILED",
+      `Error creating snapshot file '${snapshotFile}': ${(error as Error).message}`,
+      { cause: error }
+    );
   }
 
-  // Process the root directory
-  await processEntry(cwd, "", objectsDir, treeObject.children!, snapshotData);
-
-  // Update the root directory hash in treeObject
-  const serializedTree = treeObject
-    .children!.map((obj) => `${obj.type} ${obj.name}\0${obj.hash}`)
-    .join("");
-  const hash = crypto.createHash("sha1");
-  hash.update(serializedTree);
-  treeObject.hash = hash.digest("hex");
-
-  console.log(`Snapshot '${sanitizedSnapshotName}' created successfully.`);
+  logger.info(`Snapshot '${snapshotName}' created successfully.`);
+  return result;
 }
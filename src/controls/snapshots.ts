@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  LogEntry,
+  isValidSnapshotName,
+  readLogTrack,
+  writeLogTrack,
+} from "../utils/logTrack.js";
+import { getSnapshotFile, readSnapshotTree } from "../utils/recursive.js";
+import { TreeObject } from "../utils/tree.js";
+import {
+  deleteRef,
+  listBranches,
+  readHead,
+  writeHead,
+  writeRef,
+} from "../utils/refs.js";
+import { ContextOptions, createContext } from "../utils/context.js";
+import { SubsysError } from "../utils/errors.js";
+
+interface DeleteOptions {
+  force?: boolean;
+}
+
+function requireRepository(cwd: string) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    throw new SubsysError(
+      "NOT_INITIALIZED",
+      "Repository is not initialized. Use 'subsys init' to initialize."
+    );
+  }
+}
+
+// Snapshots in the order they were taken, as recorded in logTrack.json
+export function listSnapshots(context: ContextOptions = {}): LogEntry[] {
+  const { cwd } = createContext(context);
+  requireRepository(cwd);
+
+  return readLogTrack(cwd);
+}
+
+export function readTree(
+  snapshotName: string,
+  context: ContextOptions = {}
+): TreeObject {
+  const { cwd, logger } = createContext(context);
+  requireRepository(cwd);
+
+  const tree = readSnapshotTree(cwd, snapshotName, logger);
+  if (!tree) {
+    throw new SubsysError("NOT_FOUND", `Snapshot '${snapshotName}' not found.`);
+  }
+  return tree;
+}
+
+function getStagingDir(cwd: string, snapshotName: string) {
+  return path.join(cwd, ".subsys", "snapshots", snapshotName);
+}
+
+/**
+ * Keeps the history linked when a snapshot goes away: its children and any
+ * branch pointing at it move to its parent.
+ */
+function unlinkFromHistory(cwd: string, hash: string, parent?: string) {
+  const logTrack = readLogTrack(cwd);
+  for (const item of logTrack) {
+    if (item.parent === hash) {
+      item.parent = parent;
+    }
+  }
+  writeLogTrack(cwd, logTrack);
+
+  for (const branch of listBranches(cwd)) {
+    if (branch.hash !== hash) {
+      continue;
+    }
+    if (parent) {
+      writeRef(cwd, `refs/heads/${branch.name}`, parent);
+    } else {
+      deleteRef(cwd, `refs/heads/${branch.name}`);
+    }
+  }
+
+  const head = readHead(cwd);
+  if (head.hash === hash) {
+    writeHead(cwd, parent ? { hash: parent } : { ref: "refs/heads/master" });
+  }
+}
+
+export function deleteSnapshot(
+  snapshotName: string,
+  options: DeleteOptions,
+  cwd = process.cwd()
+) {
+  // The name becomes a path, anything but a slug could leave .subsys
+  if (!isValidSnapshotName(snapshotName)) {
+    console.error(`Snapshot '${snapshotName}' not found.`);
+    process.exit(1);
+  }
+
+  const logTrack = readLogTrack(cwd);
+  const entry = logTrack.find((item) => item.treeName === snapshotName);
+  const snapshotFile = getSnapshotFile(cwd, snapshotName);
+
+  if (!entry && !fs.existsSync(snapshotFile)) {
+    console.error(`Snapshot '${snapshotName}' not found.`);
+    process.exit(1);
+  }
+
+  if (entry?.submitted && !options.force) {
+    console.error(
+      `Snapshot '${snapshotName}' has been submitted. Use --force to delete it anyway.`
+    );
+    process.exit(1);
+  }
+
+  writeLogTrack(
+    cwd,
+    logTrack.filter((item) => item.treeName !== snapshotName)
+  );
+  if (entry) {
+    unlinkFromHistory(cwd, entry.SHA, entry.parent);
+  }
+  fs.rmSync(snapshotFile, { force: true });
+  fs.rmSync(getStagingDir(cwd, snapshotName), { recursive: true, force: true });
+
+  console.log(
+    `Deleted snapshot '${snapshotName}'. Run 'subsys gc' to remove objects it no longer shares.`
+  );
+}
+
+export function renameSnapshot(
+  oldName: string,
+  newName: string,
+  cwd = process.cwd()
+) {
+  if (!isValidSnapshotName(oldName)) {
+    console.error(`Snapshot '${oldName}' not found.`);
+    process.exit(1);
+  }
+
+  if (!isValidSnapshotName(newName)) {
+    console.error("Snapshot name contains invalid characters. Please use a slug.");
+    process.exit(1);
+  }
+
+  const logTrack = readLogTrack(cwd);
+  const entry = logTrack.find((item) => item.treeName === oldName);
+  const oldFile = getSnapshotFile(cwd, oldName);
+
+  if (!entry || !fs.existsSync(oldFile)) {
+    console.error(`Snapshot '${oldName}' not found.`);
+    process.exit(1);
+  }
+
+  if (
+    logTrack.some((item) => item.treeName === newName) ||
+    fs.existsSync(getSnapshotFile(cwd, newName))
+  ) {
+    console.error(`Snapshot '${newName}' already exists.`);
+    process.exit(1);
+  }
+
+  fs.renameSync(oldFile, getSnapshotFile(cwd, newName));
+
+  const oldStagingDir = getStagingDir(cwd, oldName);
+  if (fs.existsSync(oldStagingDir)) {
+    fs.rmSync(getStagingDir(cwd, newName), { recursive: true, force: true });
+    fs.renameSync(oldStagingDir, getStagingDir(cwd, newName));
+  }
+
+  entry.treeName = newName;
+  writeLogTrack(cwd, logTrack);
+
+  console.log(`Renamed snapshot '${oldName}' to '${newName}'.`);
+}
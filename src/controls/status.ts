@@ -0,0 +1,177 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TreeObject, calculateTreeHash } from "../utils/tree.js";
+import { loadIgnoreMatcher } from "../utils/ignore.js";
+import { TreeChange, diffTrees, flattenTree } from "../utils/diff.js";
+import { formatDate, formatDuration } from "../utils/format.js";
+import { assumeClockSkew, currentTime } from "../utils/clock.js";
+import { parseDeadline } from "../utils/deadline.js";
+import { getCurrentBranch } from "../utils/refs.js";
+import { getHeadEntry } from "../utils/logTrack.js";
+import { loadStatCache, saveStatCache } from "../utils/statCache.js";
+import { readRepositoryFormat } from "../utils/objects.js";
+import { readSnapshotTree } from "../utils/recursive.js";
+import { findSubtree, readWorkspace } from "../utils/workspace.js";
+
+interface StatusConfig {
+  assignmentCode?: string;
+  deadline?: string;
+  deadlines?: Record<string, string>;
+  // The server's clock minus ours when the deadline was cached
+  clockOffset?: number;
+}
+
+const emptyTree: TreeObject = { type: "tree", name: "", hash: "", children: [] };
+
+const statusLabels = {
+  added: "new:     ",
+  removed: "deleted: ",
+  modified: "modified:",
+  renamed: "renamed: ",
+};
+
+function readStatusConfig(cwd: string): StatusConfig {
+  const configFile = path.join(cwd, ".subsys", "config.json");
+
+  try {
+    return JSON.parse(fs.readFileSync(configFile, "utf-8"));
+  } catch (error) {
+    return {};
+  }
+}
+
+// Submit caches deadlines already resolved to UTC
+function parseCachedDeadline(deadline: string | undefined): Date | undefined {
+  try {
+    return deadline ? parseDeadline(deadline) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function printSection(
+  cwd: string,
+  workingTree: TreeObject,
+  assignmentCode: string | undefined,
+  deadline: string | undefined,
+  indent: string,
+  assignment?: string
+) {
+  const headEntry = getHeadEntry(cwd, assignment);
+  const headTree = headEntry
+    ? readSnapshotTree(cwd, headEntry.treeName)
+    : null;
+
+  if (headEntry) {
+    console.log(
+      `${indent}Latest snapshot: ${headEntry.treeName} (${headEntry.SHA.slice(0, 7)}), ` +
+        (headEntry.submitted
+          ? `submitted on ${formatDate(headEntry.submittedAt)}`
+          : "not submitted")
+    );
+  } else {
+    console.log(`${indent}No snapshots yet.`);
+  }
+
+  const deadlineDate = parseCachedDeadline(deadline);
+  if (deadlineDate) {
+    const remaining = deadlineDate.getTime() - currentTime().getTime();
+
+    console.log(
+      `${indent}Deadline for ${assignmentCode}: ${deadlineDate.toLocaleString()} ` +
+        (remaining >= 0
+          ? `(${formatDuration(remaining)} remaining)`
+          : `(passed ${formatDuration(remaining)} ago)`)
+    );
+  }
+
+  console.log("");
+
+  if (headEntry && !headTree) {
+    console.error(
+      `${indent}Snapshot '${headEntry.treeName}' could not be read, listing all files as new.`
+    );
+  }
+
+  const changes: TreeChange[] = headTree
+    ? diffTrees(headTree, workingTree)
+    : [...flattenTree(workingTree).keys()].map((filePath) => ({
+        status: "added",
+        path: filePath,
+      }));
+
+  if (changes.length === 0) {
+    console.log(
+      `${indent}Nothing to snap, working tree matches the latest snapshot.`
+    );
+  } else {
+    console.log(
+      indent +
+        (headTree
+          ? "Changes since the latest snapshot:"
+          : "Files not yet snapped:")
+    );
+    for (const change of changes) {
+      const label = statusLabels[change.status];
+      console.log(
+        change.status === "renamed"
+          ? `${indent}  ${label} ${change.oldPath} -> ${change.path}`
+          : `${indent}  ${label} ${change.path}`
+      );
+    }
+  }
+}
+
+export async function status(cwd = process.cwd()) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  const branch = getCurrentBranch(cwd);
+  if (branch) {
+    console.log(`On branch ${branch}`);
+  }
+
+  const ignored: string[] = [];
+  const format = readRepositoryFormat(cwd);
+  const cache = loadStatCache(cwd, format);
+  const workingTree = await calculateTreeHash(cwd, loadIgnoreMatcher(cwd), format, {
+    cache,
+    onIgnore: (entryPath) =>
+      ignored.push(path.relative(cwd, entryPath).split(path.sep).join("/")),
+  });
+  saveStatCache(cwd, cache);
+
+  const config = readStatusConfig(cwd);
+  assumeClockSkew(config.clockOffset);
+  const workspace = readWorkspace(cwd);
+
+  if (Object.keys(workspace).length === 0) {
+    printSection(cwd, workingTree, config.assignmentCode, config.deadline, "");
+  } else {
+    // Each assignment is compared with its own latest snapshot
+    Object.entries(workspace).forEach(([code, relDir], index) => {
+      if (index > 0) {
+        console.log("");
+      }
+      console.log(`Assignment ${code} (${relDir}/)`);
+      printSection(
+        cwd,
+        findSubtree(workingTree, relDir) || emptyTree,
+        code,
+        code === config.assignmentCode
+          ? config.deadline
+          : config.deadlines?.[code],
+        "  ",
+        code
+      );
+    });
+  }
+
+  if (ignored.length > 0) {
+    console.log("");
+    console.log("Ignored files:");
+    ignored.sort().forEach((filePath) => console.log(`  ${filePath}`));
+  }
+}
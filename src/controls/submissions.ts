@@ -0,0 +1,53 @@
+import * as fs from "fs";
+import * as path from "path";
+import { formatDate } from "../utils/format.js";
+import { readSubmissions } from "../utils/submissions.js";
+
+interface SubmissionsOptions {
+  snapshot?: string;
+  oneline?: boolean;
+}
+
+export function submissions(options: SubmissionsOptions, cwd = process.cwd()) {
+  const subsysPath = path.join(cwd, ".subsys");
+
+  if (!fs.existsSync(subsysPath)) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+
+  let records = readSubmissions(cwd).reverse();
+
+  if (options.snapshot) {
+    records = records.filter((record) => record.snapshot === options.snapshot);
+  }
+
+  if (records.length === 0) {
+    console.log("No submissions recorded.");
+    return;
+  }
+
+  for (const record of records) {
+    const id = record.submissionId ? ` #${record.submissionId}` : "";
+    const late = record.late ? " (late)" : "";
+
+    if (options.oneline) {
+      console.log(
+        `${record.treeHash.slice(0, 7)} ${record.snapshot} ${formatDate(record.submittedAt)}${id}${late}`
+      );
+      continue;
+    }
+
+    console.log(`submission${id}`);
+    console.log(`Snapshot:   ${record.snapshot}`);
+    console.log(`Tree:       ${record.treeHash}`);
+    console.log(`Assignment: ${record.assignmentCode}`);
+    console.log(`Date:       ${formatDate(record.submittedAt)}${late}`);
+    console.log(`Backend:    ${record.backendUrl}`);
+    console.log(`Upload:     ${record.uploadFormat}`);
+    if (record.response !== undefined) {
+      console.log(`Response:   ${JSON.stringify(record.response)}`);
+    }
+    console.log("");
+  }
+}
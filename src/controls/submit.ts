@@ -1,277 +1,871 @@
 import axios, { AxiosError } from "axios";
-import FormData from "form-data";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
-import * as dotenv from "dotenv";
-import { decompressSnapshot, recreateTree } from "../utils/recursive.js";
-
-dotenv.config();
-
-interface AuthenticationResponse {
-  success: boolean;
-  token?: string;
-  message?: string;
-  user?: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    email: string;
-    staffId: string;
-    role: string;
-    changePassword: boolean;
-  };
-}
+import {
+  TreeSnapshot,
+  decompressSnapshot,
+  getSnapshotFile,
+  readSnapshotTree,
+  recreateTree,
+} from "../utils/recursive.js";
+import {
+  AuthenticationResponse,
+  PasswordOptions,
+  authenticate,
+  clearSession,
+  getBackendUrl,
+  getValidSession,
+  resolvePassword,
+} from "../utils/auth.js";
+import { checkRepository, hasErrors, printFsckProblems } from "../utils/fsck.js";
+import {
+  Assignment,
+  cacheDeadline,
+  fetchAssignments,
+} from "../utils/assignments.js";
+import {
+  getHeadEntry,
+  markSubmitted,
+  readLogTrack,
+} from "../utils/logTrack.js";
+import {
+  ArchiveFormat,
+  buildManifest,
+  writeSnapshotArchive,
+} from "../utils/archive.js";
+import {
+  findSubmissionsOfTree,
+  getSubmissionId,
+  recordSubmission,
+} from "../utils/submissions.js";
+import { formatBytes, formatDate, formatDuration } from "../utils/format.js";
+import {
+  describeError,
+  isConnectionError,
+  isTransientError,
+  withRetry,
+} from "../utils/retry.js";
+import {
+  PayloadPart,
+  SubmissionPayload,
+  postSubmission,
+} from "../utils/upload.js";
+import { enqueueSubmission } from "../utils/queue.js";
+import { getSetting } from "../utils/settings.js";
+import { getAssignmentRoot, getSnapshotRoot } from "../utils/workspace.js";
+import { verifyHook } from "../utils/hooks.js";
+import {
+  Policy,
+  checkPolicy,
+  formatViolation,
+  loadPolicy,
+  saveAssignmentPolicy,
+} from "../utils/policy.js";
+import { readObject, readRepositoryFormat } from "../utils/objects.js";
+import {
+  Context,
+  ContextOptions,
+  Logger,
+  createContext,
+} from "../utils/context.js";
+import { SubsysError, classifyError } from "../utils/errors.js";
+import { currentTime, getClockSkew } from "../utils/clock.js";
+import {
+  findWarningThreshold,
+  formatDeadline,
+  parseDeadline,
+  parseDurationList,
+} from "../utils/deadline.js";
+
+// Smaller differences are normal and not worth a warning
+const CLOCK_SKEW_WARNING = 60000;
 
 interface ConfigData {
   studentId: string;
   assignmentCode: string;
 }
 
-interface Assignment {
-  id: number;
-  title: string;
-  course: string;
-  description: string;
-  deadline: string;
-  lecturerId: string;
-  isPublished: boolean;
+export type UploadMode = "legacy" | "archive";
+
+export const UPLOAD_MODES: UploadMode[] = ["legacy", "archive"];
+
+export interface UploadOptions {
+  upload?: UploadMode;
+  archiveFormat?: ArchiveFormat;
+  dryRun?: boolean;
+  queue?: boolean;
+  // Submit after the deadline, if the assignment allows it
+  late?: boolean;
+}
+
+// What happened to one snapshot
+export interface SnapshotResult {
+  snapshot: string;
+  treeHash: string;
+  status: "submitted" | "queued" | "planned";
+  submissionId?: string;
+  queueId?: string;
+  late?: boolean;
+}
+
+export interface SubmitResult {
   assignmentCode: string;
+  backendUrl: string;
+  dryRun: boolean;
+  submissions: SnapshotResult[];
+}
+
+export interface SubmitOptions extends PasswordOptions, UploadOptions {
+  all?: boolean;
+  assignment?: string;
+  // False when --no-verify is given
+  verify?: boolean;
 }
 
+/**
+ * Submits snapshots after checking the repository, the policy, the hooks and
+ * the deadline. Snapshots that could only be queued are returned with the
+ * status "queued".
+ */
 export async function submit(
   snapshotName: string | undefined,
-  password: string
-): Promise<void> {
+  options: SubmitOptions = {},
+  contextOptions: ContextOptions = {}
+): Promise<SubmitResult> {
+  const context = createContext(contextOptions);
+  const { cwd, logger, prompt, http } = context;
+
   try {
     // Read the saved studentId and assignmentCode from the configuration
-    const subsysPath = ".subsys";
-    const configFile = path.join(subsysPath, "config.json");
-    if (!fs.existsSync(configFile)) {
-      console.error("Configuration not found. Configure the repository first.");
-      return;
+    const configData = readConfigData(cwd);
+    const studentId = configData.studentId;
+    const assignmentCode = options.assignment || configData.assignmentCode;
+    if (!studentId || !assignmentCode) {
+      throw new SubsysError("NOT_CONFIGURED", "Configuration not found. Configure the repository first.");
     }
 
-    const configContent = fs.readFileSync(configFile, "utf-8");
-    const configData: ConfigData = JSON.parse(configContent);
-    const { studentId, assignmentCode } = configData;
+    if (
+      options.assignment &&
+      !getAssignmentRoot(cwd, options.assignment)
+    ) {
+      throw new SubsysError(
+        "NOT_FOUND",
+        `Assignment '${options.assignment}' is not in the workspace. Use 'subsys workspace add'.`
+      );
+    }
 
-    const backendUrl = process.env.BACKEND_URL || "https://asp-feb-backend.amalitech-dev.net";
-    const loginUrl = `${backendUrl}/api/auth/login`;
-    const emailOrId = studentId;
+    // Refuse to upload anything from a damaged object store
+    const fsckReport = checkRepository(cwd);
+    if (hasErrors(fsckReport)) {
+      printFsckProblems(fsckReport, logger);
+      throw new SubsysError(
+        "REPOSITORY_DAMAGED",
+        "Repository check failed, nothing was submitted. Run 'subsys fsck' for details."
+      );
+    }
 
-    const headers = {
-      "Content-Type": "application/json",
-    };
+    // Only the latest snapshot is sent unless asked otherwise
+    let snapshotNames: string[];
+    if (snapshotName && options.all) {
+      throw new SubsysError("INVALID_ARGUMENT", "Use either --snapshot or --all, not both.");
+    } else if (snapshotName) {
+      snapshotNames = [snapshotName];
+    } else if (options.all) {
+      // In a workspace, --all means all snapshots of the one assignment
+      snapshotNames = readLogTrack(cwd)
+        .filter((entry) => entry.assignment === options.assignment)
+        .map((entry) => entry.treeName);
+    } else {
+      const defaultSnapshot = options.assignment
+        ? undefined
+        : getSetting("defaultSnapshot", cwd);
+      const headEntry = getHeadEntry(cwd, options.assignment);
+      snapshotNames = defaultSnapshot
+        ? [String(defaultSnapshot)]
+        : headEntry
+          ? [headEntry.treeName]
+          : [];
+    }
 
-    const authenticate = async () => {
-      try {
-        // Making the authentication request
-        const response = await axios.post<AuthenticationResponse>(
-          loginUrl,
-          { emailOrId, password },
-          { headers }
-        );
+    if (snapshotNames.length === 0) {
+      throw new SubsysError("NOT_FOUND", "No snapshots to submit. Use 'subsys snap' first.");
+    }
+    const missing = snapshotNames.find(
+      (name) => !fs.existsSync(getSnapshotFile(cwd, name))
+    );
+    if (missing) {
+      throw new SubsysError("NOT_FOUND", `Snapshot '${missing}' not found.`);
+    }
 
-        if (response.status === 200) {
-          console.log("Authentication is a success");
-          const authToken = response.data.token;
+    // A snapshot of another assignment holds the wrong subdirectory
+    const logTrack = readLogTrack(cwd);
+    const foreign = snapshotNames.find(
+      (name) =>
+        logTrack.find((entry) => entry.treeName === name)?.assignment !==
+        options.assignment
+    );
+    if (foreign) {
+      const owner = logTrack.find((entry) => entry.treeName === foreign)?.assignment;
+      throw new SubsysError(
+        "INVALID_ARGUMENT",
+        owner
+          ? `Snapshot '${foreign}' belongs to assignment '${owner}', use --assignment ${owner}.`
+          : `Snapshot '${foreign}' is of the whole repository, not of assignment '${options.assignment}'.`
+      );
+    }
 
-          await checkAssignmentAndDeadline(
-            backendUrl,
-            assignmentCode,
-            authToken,
-            snapshotName
-          );
-        } else {
-          console.error("Authentication failed. Please try again.");
+    checkSnapshotPolicy(context, assignmentCode, snapshotNames);
+
+    // Hooks run before anything is sent, a dry run sends nothing
+    if (options.verify !== false && !options.dryRun) {
+      for (const name of snapshotNames) {
+        const passed = await verifyHook(
+          cwd,
+          "pre-submit",
+          getSnapshotRoot(cwd, name),
+          {
+            SUBSYS_SNAPSHOT: name,
+            SUBSYS_TREE_HASH: logTrack.find((entry) => entry.treeName === name)?.SHA,
+            SUBSYS_ASSIGNMENT_CODE: assignmentCode,
+          },
+          logger
+        );
+        if (!passed) {
+          throw new SubsysError("HOOK_FAILED", "Nothing was submitted.");
         }
+      }
+    }
+
+    const backendUrl = getBackendUrl(cwd);
+    const emailOrId = studentId;
+
+    let usedSavedSession = false;
+    const getAuthToken = async (): Promise<string> => {
+      // Reuse the session from `subsys login` or an earlier submit
+      const session = getValidSession(backendUrl, emailOrId);
+      if (session) {
+        logger.info("Using saved login session");
+        usedSavedSession = true;
+        return session.token;
+      }
+
+      try {
+        const password = await resolvePassword(options, prompt);
+        const newSession = await withRetry(
+          () => authenticate(backendUrl, emailOrId, password, http),
+          { onRetry: retryLogger(logger) }
+        );
+        logger.info("Authentication is a success");
+        return newSession.token;
       } catch (error) {
+        if (error instanceof SubsysError) {
+          throw error;
+        }
         if (axios.isAxiosError(error)) {
           const axiosError = error as AxiosError<AuthenticationResponse>;
-          console.error(
-            "Error during authentication:",
-            axiosError.response?.data
+          logger.error(
+            `Error during authentication: ${axiosError.response?.data?.message ?? describeError(error)}`
           );
         } else {
-          console.error("Error during authentication:", error);
+          logger.error(`Error during authentication: ${(error as Error).message}`);
         }
-        throw new Error("Authentication failed. Please try again.");
+        // Unreachable backends are not a wrong password, --queue handles them
+        if (isTransientError(error)) {
+          throw error;
+        }
+        throw new SubsysError(
+          axios.isAxiosError(error) ? "AUTHENTICATION_FAILED" : "FAILED",
+          "Authentication failed. Please try again.",
+          { cause: error }
+        );
       }
     };
 
-    await authenticate();
+    let authToken: string | undefined;
+    try {
+      authToken = await getAuthToken();
+    } catch (error) {
+      if (!options.queue || !isTransientError(error)) {
+        throw error;
+      }
+      logger.warn("Could not reach the backend, queuing without a deadline check.");
+    }
+
+    const results = authToken
+      ? await checkAssignmentAndDeadline(
+          context,
+          backendUrl,
+          assignmentCode,
+          authToken,
+          snapshotNames,
+          options,
+          // The saved session was cleared, so this logs in with a password
+          usedSavedSession ? getAuthToken : undefined
+        )
+      : await submitSnapshots(
+          context,
+          backendUrl,
+          assignmentCode,
+          snapshotNames,
+          options,
+          true
+        );
+
+    return {
+      assignmentCode,
+      backendUrl,
+      dryRun: !!options.dryRun,
+      submissions: results,
+    };
   } catch (error: unknown) {
-    console.error("Error during submission:", error);
+    if (error instanceof SubsysError) {
+      throw error;
+    }
+    throw new SubsysError(
+      classifyError(error),
+      `Submission failed: ${describeError(error)}`,
+      { cause: error }
+    );
   }
 }
 
 
 
-const checkSubmissionDeadline = (deadline: string): boolean => {
+/**
+ * Checks the deadline against the backend's clock and returns whether the
+ * submission is late. Throws a SubsysError when it may not go ahead.
+ */
+const checkSubmissionDeadline = (
+  context: Context,
+  assignment: Assignment,
+  uploadOptions: UploadOptions
+): { late: boolean } => {
+  const { cwd, logger } = context;
+  let deadline: Date;
   try {
-    const deadlineDate = new Date(deadline);
-    const currentDate = new Date();
-    return currentDate <= deadlineDate;
+    deadline = parseDeadline(assignment.deadline, assignment.timezone);
   } catch (error) {
-    console.error("Error parsing or comparing dates:", error);
-    throw new Error("Failed to check submission deadline. Please try again.");
+    throw new SubsysError(
+      "BACKEND_ERROR",
+      `${(error as Error).message} Cannot check the deadline, nothing was submitted.`
+    );
+  }
+
+  const skew = getClockSkew();
+  if (skew !== undefined && Math.abs(skew) >= CLOCK_SKEW_WARNING) {
+    logger.warn(
+      `Warning: your clock is ${formatDuration(skew)} ${skew > 0 ? "behind" : "ahead of"} the server's, using the server's time.`
+    );
+  }
+
+  const now = currentTime();
+  logger.info(`Deadline: ${formatDeadline(deadline, now)}`);
+
+  if (deadline.getTime() >= now.getTime()) {
+    const threshold = findWarningThreshold(
+      deadline,
+      now,
+      parseDurationList(String(getSetting("deadlineWarnings", cwd) ?? ""))
+    );
+    if (threshold !== undefined) {
+      logger.warn(`Warning: less than ${formatDuration(threshold)} left before the deadline.`);
+    }
+    if (uploadOptions.late) {
+      logger.info("The deadline has not passed, the submission is on time.");
+    }
+    return { late: false };
   }
+
+  if (!assignment.allowLateSubmissions) {
+    throw new SubsysError(
+      "DEADLINE_PASSED",
+      "The deadline has passed and this assignment does not accept late submissions."
+    );
+  }
+  if (!uploadOptions.late) {
+    throw new SubsysError(
+      "DEADLINE_PASSED",
+      "The deadline has passed. Use --late to submit anyway, marked as late."
+    );
+  }
+
+  logger.warn("Warning: submitting after the deadline, the submission is marked as late.");
+  return { late: true };
 };
 
-const submitAssignment = async (
-  backendUrl: string,
-  snapshotName?: string
-): Promise<void> => {
+// Reports every violation and throws if any snapshot has one
+const checkSnapshotPolicy = (
+  context: Context,
+  assignmentCode: string,
+  snapshotNames: string[],
+  assignmentPolicy?: Policy
+) => {
+  const { cwd: baseDir, logger } = context;
+  let policy;
   try {
-    const baseDir = process.cwd();
-    let snapshotFolderPath = path.join(baseDir, ".subsys", "snapshots");
+    policy = loadPolicy(baseDir, assignmentCode, assignmentPolicy);
+  } catch (error) {
+    throw new SubsysError("POLICY_VIOLATION", (error as Error).message);
+  }
+  if (!policy) {
+    return;
+  }
 
-    if (snapshotName) {
-      snapshotFolderPath = path.join(
-        baseDir,
-        ".subsys",
-        "snapshots",
-        `${snapshotName}`
+  const format = readRepositoryFormat(baseDir);
+  const violationsBySnapshot: Record<string, string[]> = {};
+
+  for (const snapshotName of snapshotNames) {
+    const tree = readSnapshotTree(baseDir, snapshotName, logger);
+    if (!tree) {
+      continue;
+    }
+
+    // Version 1 trees do not always record sizes
+    const violations = checkPolicy(
+      tree,
+      policy,
+      (blob) => blob.size ?? readObject(baseDir, blob.hash, format)?.length ?? 0
+    );
+    if (violations.length > 0) {
+      violationsBySnapshot[snapshotName] = violations.map(formatViolation);
+      logger.error(`Snapshot '${snapshotName}' breaks the submission policy:`);
+      violationsBySnapshot[snapshotName].forEach((violation) =>
+        logger.error(`  ${violation}`)
       );
     }
+  }
 
-    const configFilePath = path.join(baseDir, ".subsys", "config.json");
-    const configContent = fs.readFileSync(configFilePath, "utf-8");
-    const configData: { studentId: string; assignmentCode: string } =
-      JSON.parse(configContent);
-    const { studentId, assignmentCode } = configData;
-
-    const formData = new FormData();
-
-    const addFilesToFormData = (
-      currentPath: string,
-      relativePath: string,
-      parentFolderPath: string
-    ) => {
-      const items = fs.readdirSync(currentPath);
-      for (const item of items) {
-        const itemPath = path.join(currentPath, item);
-        const itemRelativePath = path.join(relativePath, item);
-
-        if (fs.statSync(itemPath).isDirectory()) {
-          addFilesToFormData(
-            itemPath,
-            "",
-            parentFolderPath + itemRelativePath + "/"
-          );
-        } else {
-          const extension = path.extname(item).toLowerCase();
-          if (extension !== ".gz") {
-            // Exclude files with .gz extension
-            const newFileName = parentFolderPath + itemRelativePath;
-            const cleanedFileName = newFileName.replace(/\//g, "_");
-            formData.append("files", fs.createReadStream(itemPath), {
-              filename: cleanedFileName,
-            });
-          }
-        }
+  if (Object.keys(violationsBySnapshot).length > 0) {
+    throw new SubsysError(
+      "POLICY_VIOLATION",
+      "Nothing was submitted. Fix the files, snap again and resubmit.",
+      { details: violationsBySnapshot }
+    );
+  }
+};
+
+// Legacy uploads flatten each path into a single filename
+const legacyFileName = (snapshotName: string, filePath: string): string =>
+  `${snapshotName}/${filePath}`.replace(/\//g, "_");
+
+const isSkippedByLegacyUpload = (filePath: string): boolean =>
+  path.extname(filePath).toLowerCase() === ".gz";
+
+const readConfigData = (baseDir: string): ConfigData => ({
+  studentId: String(getSetting("studentId", baseDir) ?? ""),
+  assignmentCode: String(getSetting("assignmentCode", baseDir) ?? ""),
+});
+
+const retryLogger =
+  (logger: Logger) =>
+  (error: unknown, attempt: number, delay: number, retries: number) => {
+    logger.warn(
+      `Request failed (${describeError(error)}), retrying in ${delay / 1000}s (attempt ${attempt} of ${retries})...`
+    );
+  };
+
+const prepareLegacyPayload = (
+  context: Context,
+  assignmentCode: string,
+  snapshotName: string,
+  snapshotData: TreeSnapshot
+): SubmissionPayload => {
+  const { cwd: baseDir, logger } = context;
+  recreateTree(snapshotData, baseDir, snapshotName, logger);
+
+  const snapshotFolderPath = path.join(
+    baseDir,
+    ".subsys",
+    "snapshots",
+    snapshotName
+  );
+  const { studentId } = readConfigData(baseDir);
+  const parts: PayloadPart[] = [];
+
+  const addFiles = (currentPath: string, relativePath: string) => {
+    const items = fs.readdirSync(currentPath);
+    for (const item of items) {
+      const itemPath = path.join(currentPath, item);
+      const itemRelativePath = relativePath ? `${relativePath}/${item}` : item;
+
+      if (fs.statSync(itemPath).isDirectory()) {
+        addFiles(itemPath, itemRelativePath);
+      } else if (!isSkippedByLegacyUpload(item)) {
+        parts.push({
+          field: "files",
+          file: itemPath,
+          filename: legacyFileName(snapshotName, itemRelativePath),
+        });
       }
-    };
+    }
+  };
 
-    // Add files from the specified snapshot folder or all snapshots folder
-    addFilesToFormData(snapshotFolderPath, "/", snapshotName || "");
+  addFiles(snapshotFolderPath, "");
 
-    formData.append("studentId", studentId);
-    formData.append("assignmentCode", assignmentCode);
+  return { parts, fields: { studentId, assignmentCode } };
+};
 
-    await axios.post(
-      `${backendUrl}/api/submit/assignment`,
-      formData,
+/**
+ * Packs a snapshot into a single archive read straight from the object
+ * store, with a manifest so the backend can verify every file against its
+ * hash.
+ */
+const prepareArchivePayload = async (
+  baseDir: string,
+  assignmentCode: string,
+  snapshotName: string,
+  archiveFormat: ArchiveFormat,
+  workDir: string
+): Promise<SubmissionPayload> => {
+  const archiveFile = path.join(workDir, `${snapshotName}.${archiveFormat}`);
+  const manifestFile = path.join(workDir, "manifest.json");
+  const { studentId } = readConfigData(baseDir);
+
+  const manifest = await writeSnapshotArchive(
+    baseDir,
+    snapshotName,
+    archiveFormat,
+    archiveFile
+  );
+  fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+  return {
+    parts: [
       {
-        headers: formData.getHeaders(),
-      }
+        field: "archive",
+        file: archiveFile,
+        filename: path.basename(archiveFile),
+      },
+      {
+        field: "manifest",
+        file: manifestFile,
+        filename: "manifest.json",
+        contentType: "application/json",
+      },
+    ],
+    fields: { uploadFormat: "archive", studentId, assignmentCode },
+  };
+};
+
+// Resubmitting is allowed, but usually means the wrong snapshot was picked
+const warnIfAlreadySubmitted = (
+  context: Context,
+  snapshotName: string,
+  treeHash: string
+) => {
+  for (const record of findSubmissionsOfTree(context.cwd, treeHash)) {
+    context.logger.warn(
+      `Warning: the content of '${snapshotName}' (tree ${treeHash.slice(0, 7)}) was already submitted as '${record.snapshot}' on ${formatDate(record.submittedAt)}.`
     );
-    console.log("Successfully submitted all assignments")
+  }
+};
 
-  } catch (error) {
-    console.error("Error during submission:", error);
-    throw new Error("Failed to submit assignment. Please try again.");
+/**
+ * Prints what an upload of the snapshot would send: every file under its
+ * remote name, the payload size and the form fields.
+ */
+const printUploadPlan = (
+  context: Context,
+  assignmentCode: string,
+  snapshotName: string,
+  uploadOptions: UploadOptions
+) => {
+  const { cwd: baseDir, logger } = context;
+  const { studentId } = readConfigData(baseDir);
+  const manifest = buildManifest(baseDir, snapshotName);
+  const archiveFormat =
+    uploadOptions.upload === "archive"
+      ? uploadOptions.archiveFormat || "tar.gz"
+      : undefined;
+
+  logger.info(`snapshot ${snapshotName} (tree ${manifest.treeHash})`);
+
+  let fileCount = 0;
+  let totalSize = 0;
+  for (const file of manifest.files) {
+    if (!archiveFormat && isSkippedByLegacyUpload(file.path)) {
+      logger.info(`  skip    ${file.path} (.gz files are not uploaded in legacy mode)`);
+      continue;
+    }
+
+    const remoteName = archiveFormat
+      ? file.path
+      : legacyFileName(snapshotName, file.path);
+    logger.info(`  upload  ${file.path} -> ${remoteName} (${formatBytes(file.size)})`);
+    fileCount++;
+    totalSize += file.size;
   }
+
+  logger.info(
+    `  total   ${fileCount} file(s), ${formatBytes(totalSize)}` +
+      (archiveFormat
+        ? ` before compression into ${snapshotName}.${archiveFormat} with manifest.json`
+        : "")
+  );
+  logger.info(
+    `  fields  studentId=${studentId} assignmentCode=${assignmentCode}` +
+      (archiveFormat ? " uploadFormat=archive" : "") +
+      (uploadOptions.late ? " late=true" : "")
+  );
+  logger.info("");
 };
 
-const checkAssignmentAndDeadline = async (
+/**
+ * Uploads one snapshot, retrying transient failures. With --queue, a
+ * snapshot that cannot reach the backend is saved for `subsys push`, and
+ * offline skips the upload attempt entirely.
+ */
+const uploadSnapshot = async (
+  context: Context,
   backendUrl: string,
   assignmentCode: string,
-  authToken?: string,
-  snapShotName?: string
-): Promise<void> => {
+  snapshotName: string,
+  snapshotData: TreeSnapshot,
+  uploadOptions: UploadOptions,
+  offline: boolean
+): Promise<SnapshotResult> => {
+  const { cwd: baseDir, logger, http } = context;
+  const archiveFormat =
+    uploadOptions.upload === "archive"
+      ? uploadOptions.archiveFormat || "tar.gz"
+      : undefined;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "subsys-"));
+  const attemptedAt = new Date().toISOString();
+
   try {
+    let payload: SubmissionPayload;
+    if (archiveFormat) {
+      payload = await prepareArchivePayload(
+        baseDir,
+        assignmentCode,
+        snapshotName,
+        archiveFormat,
+        workDir
+      );
+    } else {
+      payload = prepareLegacyPayload(
+        context,
+        assignmentCode,
+        snapshotName,
+        snapshotData
+      );
+    }
+    if (uploadOptions.late) {
+      payload.fields.late = "true";
+    }
 
-    const assignmentsUrl = `${backendUrl}/api/students/byassignment`;
-    const response = await axios.get<{ assignments: Assignment[] }>(assignmentsUrl, {
-      headers: {
-        Authorization: `Bearer ${authToken}`
+    const queueSubmission = (reason: string): SnapshotResult => {
+      const item = enqueueSubmission(baseDir, {
+        snapshot: snapshotName,
+        treeHash: snapshotData.tree.hash,
+        assignmentCode,
+        backendUrl,
+        uploadFormat: archiveFormat || "legacy",
+        attemptedAt,
+        lastError: reason,
+        parts: payload.parts,
+        fields: { ...payload.fields, attemptedAt },
+      });
+      logger.info(
+        `Could not reach the backend, queued '${snapshotName}' as ${item.id}. Run 'subsys push' to send it.`
+      );
+      return {
+        snapshot: snapshotName,
+        treeHash: snapshotData.tree.hash,
+        status: "queued",
+        queueId: item.id,
+        late: !!uploadOptions.late,
+      };
+    };
+
+    if (offline) {
+      return queueSubmission("backend unreachable");
+    }
+
+    let responseData: unknown;
+    try {
+      // A submission the server may have received is not sent again
+      responseData = await withRetry(
+        () => postSubmission(backendUrl, payload, http),
+        { shouldRetry: isConnectionError, onRetry: retryLogger(logger) }
+      );
+    } catch (error) {
+      if (uploadOptions.queue && isTransientError(error)) {
+        return queueSubmission(describeError(error));
       }
-    });
+      logger.error(`Failed to submit '${snapshotName}'.`);
+      throw error;
+    }
 
-    const assignmentExists = response.data.assignments.some(
-      (assignment) => assignment.assignmentCode === assignmentCode
+    logger.info(
+      archiveFormat
+        ? `Submitted '${snapshotName}' as ${archiveFormat} archive (tree ${snapshotData.tree.hash})`
+        : "Successfully submitted all assignments"
     );
-    if (assignmentExists) {
-      console.log("Assignment exists and student has been invited to this assignment...");
-      const targetAssignment = response.data.assignments.find(
-        (assignment) => assignment.assignmentCode === assignmentCode
-      );
+    const submissionId = getSubmissionId(responseData);
+    markSubmitted(baseDir, snapshotName);
+    recordSubmission(baseDir, {
+      snapshot: snapshotName,
+      treeHash: snapshotData.tree.hash,
+      assignmentCode,
+      submittedAt: new Date().toISOString(),
+      backendUrl,
+      uploadFormat: archiveFormat || "legacy",
+      late: uploadOptions.late || undefined,
+      submissionId,
+      response: responseData,
+    });
+    return {
+      snapshot: snapshotName,
+      treeHash: snapshotData.tree.hash,
+      status: "submitted",
+      submissionId,
+      late: !!uploadOptions.late,
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+};
 
-      if (targetAssignment) {
-        const canSubmit = checkSubmissionDeadline(targetAssignment.deadline);
-        console.log("Can submit, continuing...");
-
-        if (canSubmit) {
-          const baseDir = process.cwd();
-          let snapshotFiles: string[] = [];
-
-          if (snapShotName) {
-            const snapshotFile = path.join(
-              baseDir,
-              ".subsys",
-              "snapshots",
-              `${snapShotName}.gz`
-            );
-
-            if (fs.existsSync(snapshotFile)) {
-              snapshotFiles.push(snapshotFile);
-            }
-          } else {
-            const snapshotFolder = path.join(baseDir, ".subsys", "snapshots");
-            snapshotFiles = fs.readdirSync(snapshotFolder)
-              .filter((file) => file.endsWith(".gz"))
-              .map((file) => path.join(snapshotFolder, file));
-          }
-
-          for (const snapshotFile of snapshotFiles) {
-            const snapshotName = path.basename(snapshotFile, ".gz");
-            const snapshotData = await decompressSnapshot(snapshotFile);
-            if (snapshotData) {
-              recreateTree(snapshotData, baseDir, snapshotName);
-              console.log(
-                `Deadline has not passed for ${snapshotName}. Continuing with submission...`
-              );
-              await submitAssignment(backendUrl, snapshotName);
-            } else {
-              console.error(`Error decompressing snapshot: ${snapshotName}`);
-            }
-          }
-        } else {
-          console.error("Can no longer submit after deadline.");
-        }
-      } else {
-        console.error("Error finding the assignment with the given code for specified student.");
+const submitSnapshots = async (
+  context: Context,
+  backendUrl: string,
+  assignmentCode: string,
+  snapshotNames: string[],
+  uploadOptions: UploadOptions,
+  offline = false
+): Promise<SnapshotResult[]> => {
+  const { cwd: baseDir, logger } = context;
+  const results: SnapshotResult[] = [];
+
+  if (uploadOptions.dryRun) {
+    logger.info("Dry run, nothing will be uploaded.\n");
+  }
+
+  for (const snapshotName of snapshotNames) {
+    const snapshotFile = getSnapshotFile(baseDir, snapshotName);
+    const snapshotData = decompressSnapshot(snapshotFile, logger);
+    if (snapshotData) {
+      const treeHash = snapshotData.tree.hash;
+      warnIfAlreadySubmitted(context, snapshotName, treeHash);
+
+      if (uploadOptions.dryRun) {
+        printUploadPlan(context, assignmentCode, snapshotName, uploadOptions);
+        results.push({
+          snapshot: snapshotName,
+          treeHash,
+          status: "planned",
+          late: !!uploadOptions.late,
+        });
+        continue;
       }
+
+      results.push(await uploadSnapshot(
+        context,
+        backendUrl,
+        assignmentCode,
+        snapshotName,
+        snapshotData,
+        uploadOptions,
+        offline
+      ));
     } else {
-      console.error(
-        "Assignment does not exist. Please check the assignment code."
-      );
+      throw new Error(`Error decompressing snapshot: ${snapshotName}`);
     }
+  }
+
+  return results;
+};
+
+const checkAssignmentAndDeadline = async (
+  context: Context,
+  backendUrl: string,
+  assignmentCode: string,
+  authToken: string | undefined,
+  snapshotNames: string[],
+  uploadOptions: UploadOptions = {},
+  renewToken?: () => Promise<string>
+): Promise<SnapshotResult[]> => {
+  const { cwd, logger, http } = context;
+  let assignments: Assignment[];
+  try {
+    assignments = await withRetry(
+      () => fetchAssignments(backendUrl, authToken, http),
+      { onRetry: retryLogger(logger) }
+    );
   } catch (error) {
-    console.error("Error checking assignment existence and deadline:", error);
-    throw new Error(
-      "Failed to check assignment existence and deadline. Please try again."
+    if (uploadOptions.queue && isTransientError(error)) {
+      logger.warn("Could not reach the backend, queuing without a deadline check.");
+      return submitSnapshots(
+        context,
+        backendUrl,
+        assignmentCode,
+        snapshotNames,
+        uploadOptions,
+        true
+      );
+    }
+    // A rejected saved token is dropped and the login done once more
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      clearSession(backendUrl);
+      if (renewToken) {
+        logger.warn("The saved login session was rejected, logging in again.");
+        return checkAssignmentAndDeadline(
+          context,
+          backendUrl,
+          assignmentCode,
+          await renewToken(),
+          snapshotNames,
+          uploadOptions
+        );
+      }
+    }
+    throw new SubsysError(
+      classifyError(error),
+      `Failed to check assignment existence and deadline: ${describeError(error)}`,
+      { cause: error }
+    );
+  }
+
+  const targetAssignment = assignments.find(
+    (assignment) => assignment.assignmentCode === assignmentCode
+  );
+  if (!targetAssignment) {
+    throw new SubsysError(
+      "ASSIGNMENT_NOT_FOUND",
+      "Assignment does not exist. Please check the assignment code."
+    );
+  }
+  logger.info("Assignment exists and student has been invited to this assignment...");
+
+  // A dry run leaves the repository as it was
+  if (!uploadOptions.dryRun) {
+    cacheDeadline(cwd, targetAssignment, logger);
+  }
+  // The assignment may bring its own policy, check again with it
+  if (targetAssignment.policy) {
+    if (!uploadOptions.dryRun) {
+      saveAssignmentPolicy(cwd, assignmentCode, targetAssignment.policy);
+    }
+    checkSnapshotPolicy(
+      context,
+      assignmentCode,
+      snapshotNames,
+      targetAssignment.policy
     );
   }
+  const deadlineCheck = checkSubmissionDeadline(
+    context,
+    targetAssignment,
+    uploadOptions
+  );
+
+  return submitSnapshots(
+    context,
+    backendUrl,
+    assignmentCode,
+    snapshotNames,
+    { ...uploadOptions, late: deadlineCheck.late }
+  );
 };
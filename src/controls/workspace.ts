@@ -0,0 +1,77 @@
+import * as fs from "fs";
+import * as path from "path";
+import { readWorkspace } from "../utils/workspace.js";
+import { updateConfiguration } from "./config.js";
+
+function requireRepository(cwd: string) {
+  if (!fs.existsSync(path.join(cwd, ".subsys"))) {
+    console.log("Repository is not initialized. Use 'subsys init' to initialize.");
+    process.exit(1);
+  }
+}
+
+export function workspaceAdd(
+  assignmentCode: string,
+  directory: string,
+  cwd = process.cwd()
+) {
+  requireRepository(cwd);
+
+  const assignmentRoot = path.resolve(cwd, directory);
+  const relDir = path.relative(cwd, assignmentRoot).split(path.sep).join("/");
+
+  if (!relDir || relDir.startsWith("..") || path.isAbsolute(relDir)) {
+    console.error("The assignment directory must be a subdirectory of the repository.");
+    process.exit(1);
+  }
+  if (!fs.existsSync(assignmentRoot) || !fs.statSync(assignmentRoot).isDirectory()) {
+    console.error(`Directory '${relDir}' does not exist.`);
+    process.exit(1);
+  }
+
+  const workspace = readWorkspace(cwd);
+  const overlapping = Object.entries(workspace).find(
+    ([code, dir]) =>
+      code !== assignmentCode &&
+      (dir === relDir ||
+        dir.startsWith(`${relDir}/`) ||
+        relDir.startsWith(`${dir}/`))
+  );
+  if (overlapping) {
+    console.error(
+      `'${relDir}' overlaps '${overlapping[1]}' of assignment '${overlapping[0]}'.`
+    );
+    process.exit(1);
+  }
+
+  updateConfiguration({ workspace: { ...workspace, [assignmentCode]: relDir } }, cwd);
+  console.log(`Assignment '${assignmentCode}' lives in '${relDir}'.`);
+}
+
+export function workspaceRemove(assignmentCode: string, cwd = process.cwd()) {
+  requireRepository(cwd);
+
+  const workspace = readWorkspace(cwd);
+  if (workspace[assignmentCode] === undefined) {
+    console.error(`Assignment '${assignmentCode}' is not in the workspace.`);
+    process.exit(1);
+  }
+
+  delete workspace[assignmentCode];
+  updateConfiguration({ workspace }, cwd);
+  console.log(`Removed assignment '${assignmentCode}' from the workspace.`);
+}
+
+export function workspaceList(cwd = process.cwd()) {
+  requireRepository(cwd);
+
+  const workspace = readWorkspace(cwd);
+  if (Object.keys(workspace).length === 0) {
+    console.log("No assignments in the workspace. Use 'subsys workspace add'.");
+    return;
+  }
+
+  for (const [code, dir] of Object.entries(workspace)) {
+    console.log(`${code}\t${dir}/`);
+  }
+}
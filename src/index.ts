@@ -0,0 +1,39 @@
+/**
+ * Library entry point. The operations behind the CLI, without the CLI:
+ * they return results, throw SubsysError and take a context that can
+ * replace the working directory, console, prompts and HTTP client.
+ */
+export { init } from "./controls/init.js";
+export type { InitResult } from "./controls/init.js";
+export { configure } from "./controls/config.js";
+export type { ConfigureOptions, ConfigureResult } from "./controls/config.js";
+export { snap as snapshot } from "./controls/snap.js";
+export type { SnapOptions, SnapResult } from "./controls/snap.js";
+export { listSnapshots, readTree } from "./controls/snapshots.js";
+export { restore } from "./controls/restore.js";
+export type { RestoreOptions, RestoreResult } from "./controls/restore.js";
+export { submit } from "./controls/submit.js";
+export type {
+  SnapshotResult,
+  SubmitOptions,
+  SubmitResult,
+  UploadMode,
+} from "./controls/submit.js";
+
+export { SubsysError } from "./utils/errors.js";
+export type { ErrorCode } from "./utils/errors.js";
+export {
+  consoleLogger,
+  createContext,
+  inquirerPrompt,
+} from "./utils/context.js";
+export type {
+  Context,
+  ContextOptions,
+  HttpClient,
+  Logger,
+  Prompt,
+} from "./utils/context.js";
+export type { ArchiveFormat } from "./utils/archive.js";
+export type { LogEntry } from "./utils/logTrack.js";
+export type { TreeObject } from "./utils/tree.js";
@@ -0,0 +1,337 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { Writable } from "stream";
+import { finished } from "stream/promises";
+import { readObject, readRepositoryFormat } from "./objects.js";
+import { TreeObject } from "./tree.js";
+import { readSnapshotTree } from "./recursive.js";
+
+export type ArchiveFormat = "tar.gz" | "zip";
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["tar.gz", "zip"];
+
+export interface ArchiveEntry {
+  path: string;
+  mtime: Date;
+  // Content is only loaded when the entry is written
+  read: () => Buffer;
+}
+
+/**
+ * Each file has two digests: hash is the object id in the repository, which
+ * for object format 2 covers a "blob <size>\0" header before the content,
+ * and contentHash is the plain digest of the file, for checking an archive
+ * with sha1sum or sha256sum.
+ */
+export interface SnapshotManifest {
+  version: 2;
+  snapshot: string;
+  treeHash: string;
+  hashAlgorithm: string;
+  objectFormat: 1 | 2;
+  hashScheme: "content" | "blob-header";
+  createdAt: string;
+  files: { path: string; size: number; hash: string; contentHash: string }[];
+}
+
+// Where an exported archive keeps its manifest, next to the snapshot's files
+export const MANIFEST_ENTRY = ".subsys-manifest.json";
+
+const BLOCK_SIZE = 512;
+
+function writeChunk(stream: Writable, chunk: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const flushed = stream.write(chunk, (error) => {
+      if (error) reject(error);
+    });
+    if (flushed) {
+      resolve();
+    } else {
+      stream.once("drain", resolve);
+    }
+  });
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  header.write(
+    value.toString(8).padStart(length - 1, "0") + "\0",
+    offset,
+    length,
+    "ascii"
+  );
+}
+
+function tarHeader(
+  name: string,
+  size: number,
+  mtime: Date,
+  type: "0" | "x"
+): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+
+  header.write(name, 0, 100, "utf-8");
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(" ", 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+// Paths longer than the 100 byte name field go in a PAX extended header
+function paxHeader(entryPath: string, mtime: Date): Buffer[] {
+  // A record's length includes the digits of the length itself
+  const body = ` path=${entryPath}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) {
+    length = String(length).length + bodyLength;
+  }
+  const record = Buffer.from(`${length}${body}`);
+
+  return [
+    tarHeader("PaxHeader", record.length, mtime, "x"),
+    record,
+    tarPadding(record.length),
+  ];
+}
+
+export async function writeTarGz(
+  entries: ArchiveEntry[],
+  output: Writable
+): Promise<void> {
+  const gzip = zlib.createGzip();
+  gzip.pipe(output);
+
+  for (const entry of entries) {
+    const content = entry.read();
+
+    if (Buffer.byteLength(entry.path) > 100) {
+      for (const chunk of paxHeader(entry.path, entry.mtime)) {
+        await writeChunk(gzip, chunk);
+      }
+    }
+
+    await writeChunk(
+      gzip,
+      tarHeader(entry.path.slice(0, 100), content.length, entry.mtime, "0")
+    );
+    await writeChunk(gzip, content);
+    await writeChunk(gzip, tarPadding(content.length));
+  }
+
+  await writeChunk(gzip, Buffer.alloc(BLOCK_SIZE * 2));
+  gzip.end();
+  await finished(output);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+export async function writeZip(
+  entries: ArchiveEntry[],
+  output: Writable
+): Promise<void> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const content = entry.read();
+    const compressed = zlib.deflateRawSync(content);
+    const name = Buffer.from(entry.path, "utf-8");
+    const crc = crc32(content);
+    const { time, date } = dosDateTime(entry.mtime);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE((0o100644 << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centralDirectory.push(central, name);
+
+    await writeChunk(output, local);
+    await writeChunk(output, name);
+    await writeChunk(output, compressed);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centralDirectory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  await writeChunk(output, directory);
+  await writeChunk(output, end);
+  output.end();
+  await finished(output);
+}
+
+function collectFiles(
+  tree: TreeObject,
+  prefix: string,
+  files: TreeObject[] = []
+): TreeObject[] {
+  for (const child of tree.children || []) {
+    const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+
+    if (child.type === "tree") {
+      collectFiles(child, childPath, files);
+    } else {
+      files.push({ ...child, name: childPath });
+    }
+  }
+
+  return files;
+}
+
+export function buildManifest(
+  baseDir: string,
+  snapshotName: string
+): SnapshotManifest {
+  const tree = readSnapshotTree(baseDir, snapshotName);
+
+  if (!tree) {
+    throw new Error(`Snapshot '${snapshotName}' not found or unreadable.`);
+  }
+
+  const format = readRepositoryFormat(baseDir);
+
+  return {
+    version: 2,
+    snapshot: snapshotName,
+    treeHash: tree.hash,
+    hashAlgorithm: format.hashAlgorithm,
+    objectFormat: format.version,
+    hashScheme: format.version === 2 ? "blob-header" : "content",
+    createdAt: new Date().toISOString(),
+    files: collectFiles(tree, "").map((file) => {
+      const content = readObject(baseDir, file.hash, format);
+      if (content === null) {
+        throw new Error(`Object ${file.hash} for '${file.name}' is missing.`);
+      }
+      return {
+        path: file.name,
+        size: content.length,
+        hash: file.hash,
+        contentHash: crypto
+          .createHash(format.hashAlgorithm)
+          .update(content)
+          .digest("hex"),
+      };
+    }),
+  };
+}
+
+/**
+ * Writes the files of a snapshot, read from the object store, into an
+ * archive and returns the manifest describing it. The manifest itself is
+ * only added to the archive when asked for.
+ */
+export async function writeSnapshotArchive(
+  baseDir: string,
+  snapshotName: string,
+  archiveFormat: ArchiveFormat,
+  outputFile: string,
+  options: { includeManifest?: boolean } = {}
+): Promise<SnapshotManifest> {
+  const manifest = buildManifest(baseDir, snapshotName);
+  const format = readRepositoryFormat(baseDir);
+  const mtime = new Date();
+
+  const entries: ArchiveEntry[] = manifest.files.map((file) => ({
+    path: file.path,
+    mtime,
+    read: () => {
+      const content = readObject(baseDir, file.hash, format);
+      if (content === null) {
+        throw new Error(`Object ${file.hash} for '${file.path}' is missing.`);
+      }
+      return content;
+    },
+  }));
+
+  if (options.includeManifest) {
+    if (manifest.files.some((file) => file.path === MANIFEST_ENTRY)) {
+      throw new Error(`The snapshot already contains a file named '${MANIFEST_ENTRY}'.`);
+    }
+    entries.push({
+      path: MANIFEST_ENTRY,
+      mtime,
+      read: () => Buffer.from(JSON.stringify(manifest, null, 2)),
+    });
+  }
+
+  const output = fs.createWriteStream(outputFile);
+  if (archiveFormat === "zip") {
+    await writeZip(entries, output);
+  } else {
+    await writeTarGz(entries, output);
+  }
+
+  return manifest;
+}
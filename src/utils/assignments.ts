@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import axios from "axios";
+import { Policy } from "./policy.js";
+import { getClockSkew, recordServerDate } from "./clock.js";
+import { parseDeadline } from "./deadline.js";
+import { HttpClient, Logger, consoleLogger } from "./context.js";
+
+export interface Assignment {
+  id: number;
+  title: string;
+  course: string;
+  description: string;
+  deadline: string;
+  // IANA zone for deadlines without an offset, UTC if not given
+  timezone?: string;
+  allowLateSubmissions?: boolean;
+  lecturerId: string;
+  isPublished: boolean;
+  assignmentCode: string;
+  // Submission rules set by the lecturer, if any
+  policy?: Policy;
+}
+
+export async function fetchAssignments(
+  backendUrl: string,
+  authToken?: string,
+  http: HttpClient = axios
+): Promise<Assignment[]> {
+  const assignmentsUrl = `${backendUrl}/api/students/byassignment`;
+  const response = await http.get<{ assignments: Assignment[] }>(
+    assignmentsUrl,
+    {
+      headers: {
+        Authorization: `Bearer ${authToken}`,
+      },
+    }
+  );
+
+  recordServerDate(response.headers.date);
+  return response.data.assignments;
+}
+
+// Remember the deadline so `subsys status` can show it offline, resolved to
+// UTC with the assignment's time zone and with the server's clock offset
+export function cacheDeadline(
+  cwd: string,
+  assignment: Assignment,
+  logger: Logger = consoleLogger
+) {
+  const { assignmentCode } = assignment;
+  let deadline = assignment.deadline;
+  try {
+    deadline = parseDeadline(deadline, assignment.timezone).toISOString();
+  } catch (error) {
+    // Cached as sent, the deadline check reports it
+  }
+
+  try {
+    const configFilePath = path.join(cwd, ".subsys", "config.json");
+    const configData = JSON.parse(fs.readFileSync(configFilePath, "utf-8"));
+    if (configData.assignmentCode === assignmentCode) {
+      configData.deadline = deadline;
+    } else {
+      // Other workspace assignments each keep their own deadline
+      configData.deadlines = { ...configData.deadlines, [assignmentCode]: deadline };
+    }
+    configData.clockOffset = getClockSkew();
+    fs.writeFileSync(configFilePath, JSON.stringify(configData, null, 2));
+  } catch (error) {
+    logger.error(`Error caching assignment deadline: ${(error as Error).message}`);
+  }
+}
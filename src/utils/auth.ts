@@ -0,0 +1,208 @@
+import * as fs from "fs";
+import * as path from "path";
+import axios from "axios";
+import { getSetting, getUserConfigDir } from "./settings.js";
+import { HttpClient, Prompt, inquirerPrompt } from "./context.js";
+
+export interface AuthenticationResponse {
+  success: boolean;
+  token?: string;
+  message?: string;
+  user?: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    staffId: string;
+    role: string;
+    changePassword: boolean;
+  };
+}
+
+export interface Session {
+  token: string;
+  emailOrId: string;
+  user?: AuthenticationResponse["user"];
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export interface PasswordOptions {
+  passwordStdin?: boolean;
+}
+
+export const PASSWORD_ENV = "SUBSYS_PASSWORD";
+
+export function getBackendUrl(cwd = process.cwd()): string {
+  return String(getSetting("backendUrl", cwd));
+}
+
+// Sessions live outside the repository so they are never snapped or submitted
+export function getCredentialsFile(): string {
+  return path.join(getUserConfigDir(), "credentials.json");
+}
+
+function readCredentials(): Record<string, Session> {
+  try {
+    return JSON.parse(fs.readFileSync(getCredentialsFile(), "utf-8"));
+  } catch (error) {
+    return {};
+  }
+}
+
+function writeCredentials(credentials: Record<string, Session>) {
+  const credentialsFile = getCredentialsFile();
+
+  fs.mkdirSync(path.dirname(credentialsFile), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(credentialsFile, JSON.stringify(credentials, null, 2), {
+    mode: 0o600,
+  });
+  // writeFileSync keeps the mode of an existing file
+  fs.chmodSync(credentialsFile, 0o600);
+}
+
+/**
+ * Reads the expiry from a JWT's payload. Tokens that are not JWTs have no
+ * known expiry and are used until the backend rejects them.
+ */
+function getTokenExpiry(token: string): string | undefined {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token.split(".")[1], "base64url").toString("utf-8")
+    );
+    return typeof payload.exp === "number"
+      ? new Date(payload.exp * 1000).toISOString()
+      : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function isSessionExpired(session: Session): boolean {
+  return (
+    session.expiresAt !== undefined &&
+    new Date(session.expiresAt).getTime() <= Date.now()
+  );
+}
+
+export function getSession(backendUrl: string): Session | undefined {
+  return readCredentials()[backendUrl];
+}
+
+export function getValidSession(
+  backendUrl: string,
+  emailOrId: string
+): Session | undefined {
+  const session = getSession(backendUrl);
+
+  if (!session || session.emailOrId !== emailOrId || isSessionExpired(session)) {
+    return undefined;
+  }
+
+  return session;
+}
+
+export function saveSession(backendUrl: string, session: Session) {
+  const credentials = readCredentials();
+  credentials[backendUrl] = session;
+  writeCredentials(credentials);
+}
+
+export function clearSession(backendUrl: string): boolean {
+  const credentials = readCredentials();
+
+  if (!credentials[backendUrl]) {
+    return false;
+  }
+
+  delete credentials[backendUrl];
+  writeCredentials(credentials);
+  return true;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8").replace(/\r?\n$/, "");
+}
+
+/**
+ * Takes the password from stdin or the SUBSYS_PASSWORD environment variable
+ * for non-interactive runs, and prompts for it otherwise.
+ */
+export async function resolvePassword(
+  options: PasswordOptions,
+  prompt: Prompt = inquirerPrompt
+): Promise<string> {
+  if (options.passwordStdin) {
+    return readStdin();
+  }
+
+  if (process.env[PASSWORD_ENV]) {
+    return process.env[PASSWORD_ENV];
+  }
+
+  return prompt.password("Enter your password:");
+}
+
+export async function promptEmailOrId(
+  prompt: Prompt = inquirerPrompt
+): Promise<string> {
+  return (await prompt.input("Enter your student ID or email:")).trim();
+}
+
+export async function authenticate(
+  backendUrl: string,
+  emailOrId: string,
+  password: string,
+  http: HttpClient = axios
+): Promise<Session> {
+  const response = await http.post<AuthenticationResponse>(
+    `${backendUrl}/api/auth/login`,
+    { emailOrId, password },
+    { headers: { "Content-Type": "application/json" } }
+  );
+
+  if (response.status !== 200 || !response.data.token) {
+    throw new Error(response.data.message || "Authentication failed.");
+  }
+
+  const session: Session = {
+    token: response.data.token,
+    emailOrId,
+    user: response.data.user,
+    expiresAt: getTokenExpiry(response.data.token),
+    createdAt: new Date().toISOString(),
+  };
+
+  saveSession(backendUrl, session);
+  return session;
+}
+
+/**
+ * Returns the saved session when it is still valid, otherwise logs in with
+ * the given student ID, asking for it when none is configured.
+ */
+export async function ensureSession(
+  backendUrl: string,
+  emailOrId: string | undefined,
+  options: PasswordOptions = {},
+  prompt: Prompt = inquirerPrompt,
+  http: HttpClient = axios
+): Promise<Session> {
+  const saved = getSession(backendUrl);
+
+  if (
+    saved &&
+    !isSessionExpired(saved) &&
+    (!emailOrId || saved.emailOrId === emailOrId)
+  ) {
+    return saved;
+  }
+
+  const loginId = emailOrId || (await promptEmailOrId(prompt));
+  const password = await resolvePassword(options, prompt);
+  return authenticate(backendUrl, loginId, password, http);
+}
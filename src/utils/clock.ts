@@ -0,0 +1,33 @@
+// Difference between the backend's clock and ours, once a response told us
+let serverOffset: number | undefined;
+
+/**
+ * Remembers the time from a response's Date header, so deadlines are not
+ * checked against a wrong local clock.
+ */
+export function recordServerDate(dateHeader: unknown) {
+  if (typeof dateHeader !== "string") {
+    return;
+  }
+
+  const serverTime = new Date(dateHeader).getTime();
+  if (!isNaN(serverTime)) {
+    serverOffset = serverTime - Date.now();
+  }
+}
+
+export function getClockSkew(): number | undefined {
+  return serverOffset;
+}
+
+// Takes over an offset saved by an earlier run, a response's Date wins
+export function assumeClockSkew(offset: unknown) {
+  if (serverOffset === undefined && typeof offset === "number") {
+    serverOffset = offset;
+  }
+}
+
+// The backend's time when known, the local time otherwise
+export function currentTime(): Date {
+  return new Date(Date.now() + (serverOffset ?? 0));
+}
@@ -0,0 +1,65 @@
+import axios, { AxiosInstance } from "axios";
+import inquirer from "inquirer";
+
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+export interface Prompt {
+  input(message: string, defaultValue?: string): Promise<string>;
+  password(message: string): Promise<string>;
+}
+
+// Anything that can send requests like axios, such as axios.create()
+export type HttpClient = Pick<AxiosInstance, "get" | "post">;
+
+/**
+ * What an operation needs from its surroundings. The CLI uses the console,
+ * inquirer and axios; embedders pass their own.
+ */
+export interface Context {
+  cwd: string;
+  logger: Logger;
+  prompt: Prompt;
+  http: HttpClient;
+}
+
+export type ContextOptions = Partial<Context>;
+
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+  error: (message) => console.error(message),
+};
+
+export const inquirerPrompt: Prompt = {
+  input: async (message, defaultValue) => {
+    const { value } = await inquirer.prompt([
+      {
+        type: "input",
+        name: "value",
+        message,
+        default: defaultValue,
+        validate: (input: string) => !!input.trim(),
+      },
+    ]);
+    return value;
+  },
+  password: async (message) => {
+    const { value } = await inquirer.prompt([
+      { type: "password", name: "value", message, mask: "*" },
+    ]);
+    return value;
+  },
+};
+
+export function createContext(options: ContextOptions = {}): Context {
+  return {
+    cwd: options.cwd ?? process.cwd(),
+    logger: options.logger ?? consoleLogger,
+    prompt: options.prompt ?? inquirerPrompt,
+    http: options.http ?? axios,
+  };
+}
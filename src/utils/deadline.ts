@@ -0,0 +1,137 @@
+import { formatDuration } from "./format.js";
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// Difference between the wall clock in timeZone and UTC at an instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Parses an ISO 8601 deadline. A deadline without an offset is wall clock
+ * time in timeZone, and one without a time lasts until the end of the day.
+ * Throws instead of returning an invalid date.
+ */
+export function parseDeadline(value: string, timeZone = "UTC"): Date {
+  const match = ISO_DATE.exec(value.trim());
+  if (!match) {
+    throw new Error(`Deadline '${value}' is not an ISO 8601 date.`);
+  }
+
+  const [, year, month, day, hour, minute, second, fraction, offset] = match;
+  const dateOnly = hour === undefined;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    dateOnly ? 23 : Number(hour),
+    dateOnly ? 59 : Number(minute),
+    dateOnly ? 59 : Number(second || 0),
+    dateOnly ? 999 : Number((fraction || "0").padEnd(3, "0"))
+  );
+
+  // Date.UTC rolls invalid fields over, such as February 30 into March
+  const check = new Date(wallClock);
+  if (
+    check.getUTCMonth() !== Number(month) - 1 ||
+    check.getUTCDate() !== Number(day) ||
+    check.getUTCHours() !== (dateOnly ? 23 : Number(hour)) ||
+    check.getUTCMinutes() !== (dateOnly ? 59 : Number(minute)) ||
+    check.getUTCSeconds() !== (dateOnly ? 59 : Number(second || 0))
+  ) {
+    throw new Error(`Deadline '${value}' is not a valid date.`);
+  }
+
+  if (offset) {
+    if (offset.toUpperCase() === "Z") {
+      return new Date(wallClock);
+    }
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    if (Number(digits.slice(0, 2)) > 23 || Number(digits.slice(2)) > 59) {
+      throw new Error(`Deadline '${value}' has an invalid UTC offset.`);
+    }
+    const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+    return new Date(wallClock - sign * minutes * 60000);
+  }
+
+  let instant: number;
+  try {
+    instant = wallClock - zoneOffset(wallClock, timeZone);
+    // The offset can change in between, as it does on daylight saving days
+    instant = wallClock - zoneOffset(instant, timeZone);
+  } catch (error) {
+    throw new Error(`'${timeZone}' is not a known time zone.`);
+  }
+  return new Date(instant);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+};
+
+// Parses lists such as "24h,1h,15m" into milliseconds
+export function parseDurationList(value: string): number[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+    .map((item) => {
+      const match = /^(\d+)\s*([mhd])$/i.exec(item);
+      if (!match) {
+        throw new Error(`'${item}' is not a duration such as 30m, 2h or 1d.`);
+      }
+      return Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+    });
+}
+
+export function formatDeadline(deadline: Date, now: Date): string {
+  const remaining = deadline.getTime() - now.getTime();
+
+  return remaining >= 0
+    ? `${deadline.toLocaleString()} (${formatDuration(remaining)} left)`
+    : `${deadline.toLocaleString()} (passed ${formatDuration(remaining)} ago)`;
+}
+
+/**
+ * Returns the smallest warning threshold the remaining time is within, or
+ * undefined when the deadline is not close yet or has passed.
+ */
+export function findWarningThreshold(
+  deadline: Date,
+  now: Date,
+  thresholds: number[]
+): number | undefined {
+  const remaining = deadline.getTime() - now.getTime();
+
+  if (remaining < 0) {
+    return undefined;
+  }
+  return thresholds
+    .filter((threshold) => remaining <= threshold)
+    .sort((a, b) => a - b)[0];
+}
@@ -0,0 +1,235 @@
+import { TreeObject } from "./tree.js";
+
+export interface TreeChange {
+  status: "added" | "removed" | "modified" | "renamed";
+  path: string;
+  oldPath?: string;
+  oldHash?: string;
+  newHash?: string;
+}
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+  oldLine: number;
+  newLine: number;
+}
+
+// Above this many LCS cells the diff falls back to replacing the whole block
+const MAX_LCS_CELLS = 25_000_000;
+
+export function flattenTree(
+  tree: TreeObject,
+  prefix = "",
+  files = new Map<string, string>()
+): Map<string, string> {
+  for (const child of tree.children || []) {
+    const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+
+    if (child.type === "tree") {
+      flattenTree(child, childPath, files);
+    } else {
+      files.set(childPath, child.hash);
+    }
+  }
+
+  return files;
+}
+
+export function diffTrees(oldTree: TreeObject, newTree: TreeObject) {
+  const oldFiles = flattenTree(oldTree);
+  const newFiles = flattenTree(newTree);
+  const changes: TreeChange[] = [];
+  const removed: string[] = [];
+  const added: string[] = [];
+
+  for (const [filePath, oldHash] of oldFiles) {
+    const newHash = newFiles.get(filePath);
+
+    if (newHash === undefined) {
+      removed.push(filePath);
+    } else if (newHash !== oldHash) {
+      changes.push({ status: "modified", path: filePath, oldHash, newHash });
+    }
+  }
+
+  for (const filePath of newFiles.keys()) {
+    if (!oldFiles.has(filePath)) {
+      added.push(filePath);
+    }
+  }
+
+  // A removed path whose exact content reappears elsewhere is a rename
+  for (const oldPath of removed) {
+    const oldHash = oldFiles.get(oldPath)!;
+    const matchIndex = added.findIndex(
+      (newPath) => newFiles.get(newPath) === oldHash
+    );
+
+    if (matchIndex !== -1) {
+      const [newPath] = added.splice(matchIndex, 1);
+      changes.push({
+        status: "renamed",
+        path: newPath,
+        oldPath,
+        oldHash,
+        newHash: oldHash,
+      });
+    } else {
+      changes.push({ status: "removed", path: oldPath, oldHash });
+    }
+  }
+
+  for (const newPath of added) {
+    changes.push({
+      status: "added",
+      path: newPath,
+      newHash: newFiles.get(newPath),
+    });
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function isBinary(content: Buffer): boolean {
+  const sample = content.subarray(0, 8000);
+  return sample.includes(0);
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+
+  const lines = text.split("\n");
+  if (text.endsWith("\n")) {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+
+  const push = (type: DiffOp["type"], line: string) => {
+    ops.push({ type, line, oldLine, newLine });
+    if (type !== "+") oldLine++;
+    if (type !== "-") newLine++;
+  };
+
+  // Trim the common prefix and suffix so the LCS table stays small
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  for (let i = 0; i < start; i++) {
+    push(" ", oldLines[i]);
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const width = b.length + 1;
+
+  if ((a.length + 1) * width > MAX_LCS_CELLS) {
+    a.forEach((line) => push("-", line));
+    b.forEach((line) => push("+", line));
+  } else {
+    const lcs = new Uint32Array((a.length + 1) * width);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        push(" ", a[i++]);
+        j++;
+      } else if (
+        j >= b.length ||
+        (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+      ) {
+        push("-", a[i++]);
+      } else {
+        push("+", b[j++]);
+      }
+    }
+  }
+
+  for (let i = oldEnd; i < oldLines.length; i++) {
+    push(" ", oldLines[i]);
+  }
+
+  return ops;
+}
+
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changeIndexes = ops
+    .map((op, index) => (op.type === " " ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changeIndexes.length === 0) {
+    return "";
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let next = 0;
+
+  while (next < changeIndexes.length) {
+    const start = Math.max(0, changeIndexes[next] - context);
+    let end = Math.min(ops.length, changeIndexes[next] + context + 1);
+    next++;
+
+    // Merge changes whose context windows overlap into a single hunk
+    while (
+      next < changeIndexes.length &&
+      changeIndexes[next] - context <= end
+    ) {
+      end = Math.min(ops.length, changeIndexes[next] + context + 1);
+      next++;
+    }
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    const oldStart = oldCount === 0 ? hunk[0].oldLine - 1 : hunk[0].oldLine;
+    const newStart = newCount === 0 ? hunk[0].newLine - 1 : hunk[0].newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach((op) => output.push(`${op.type}${op.line}`));
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,56 @@
+import axios from "axios";
+import { isTransientError } from "./retry.js";
+
+export type ErrorCode =
+  | "FAILED"
+  | "INVALID_ARGUMENT"
+  | "NOT_INITIALIZED"
+  | "NOT_CONFIGURED"
+  | "NOT_FOUND"
+  | "ALREADY_EXISTS"
+  | "UP_TO_DATE"
+  | "CONFLICT"
+  | "AUTHENTICATION_FAILED"
+  | "BACKEND_UNREACHABLE"
+  | "BACKEND_ERROR"
+  | "ASSIGNMENT_NOT_FOUND"
+  | "DEADLINE_PASSED"
+  | "POLICY_VIOLATION"
+  | "HOOK_FAILED"
+  | "REPOSITORY_DAMAGED"
+  | "QUEUED";
+
+/**
+ * The error every operation throws for a failure it knows about. The code
+ * says what went wrong, details carry data such as policy violations.
+ */
+export class SubsysError extends Error {
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: { details?: unknown; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "SubsysError";
+    this.code = code;
+    this.details = options.details;
+  }
+}
+
+export function classifyError(error: unknown): ErrorCode {
+  if (error instanceof SubsysError) {
+    return error.code;
+  }
+  if (!axios.isAxiosError(error)) {
+    return "FAILED";
+  }
+  if (isTransientError(error)) {
+    return "BACKEND_UNREACHABLE";
+  }
+  return error.response?.status === 401 || error.response?.status === 403
+    ? "AUTHENTICATION_FAILED"
+    : "BACKEND_ERROR";
+}
@@ -0,0 +1,36 @@
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return unitIndex === 0
+    ? `${value} ${units[unitIndex]}`
+    : `${value.toFixed(1)} ${units[unitIndex]}`;
+}
+
+export function formatDate(isoDate?: string): string {
+  if (!isoDate) {
+    return "unknown";
+  }
+
+  const date = new Date(isoDate);
+  return isNaN(date.getTime()) ? "unknown" : date.toLocaleString();
+}
+
+export function formatDuration(milliseconds: number): string {
+  const minutes = Math.floor(Math.abs(milliseconds) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const parts: string[] = [];
+
+  if (days > 0) parts.push(`${days}d`);
+  if (hours > 0) parts.push(`${hours}h`);
+  parts.push(`${minutes % 60}m`);
+
+  return parts.join(" ");
+}
@@ -0,0 +1,219 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  RepositoryFormat,
+  hashTree,
+  readRepositoryFormat,
+  verifyObject,
+} from "./objects.js";
+import { TreeObject } from "./tree.js";
+import { decompressSnapshot } from "./recursive.js";
+import { readLogTrack } from "./logTrack.js";
+import { Logger, consoleLogger } from "./context.js";
+
+export interface FsckReport {
+  checkedObjects: number;
+  checkedSnapshots: number;
+  missingObjects: { snapshot: string; path: string; hash: string }[];
+  corruptObjects: string[];
+  orphanedObjects: string[];
+  unreadableSnapshots: string[];
+  corruptTrees: { snapshot: string; path: string }[];
+  danglingEntries: string[];
+  untrackedSnapshots: string[];
+  hashMismatches: { snapshot: string; expected: string; actual: string }[];
+}
+
+function listObjects(objectsDir: string): string[] {
+  if (!fs.existsSync(objectsDir)) {
+    return [];
+  }
+
+  const hashes: string[] = [];
+  for (const prefix of fs.readdirSync(objectsDir)) {
+    const prefixDir = path.join(objectsDir, prefix);
+    if (!fs.statSync(prefixDir).isDirectory()) {
+      continue;
+    }
+    for (const rest of fs.readdirSync(prefixDir)) {
+      hashes.push(prefix + rest);
+    }
+  }
+
+  return hashes;
+}
+
+function collectObjects(
+  tree: TreeObject,
+  prefix: string,
+  format: RepositoryFormat,
+  objects: { path: string; hash: string }[],
+  corruptTrees: string[]
+) {
+  const children = tree.children || [];
+
+  if (hashTree(children, format) !== tree.hash) {
+    corruptTrees.push(prefix || "/");
+  }
+
+  // Version 2 trees are stored as objects alongside the blobs
+  if (format.version === 2) {
+    objects.push({ path: prefix || "/", hash: tree.hash });
+  }
+
+  for (const child of children) {
+    const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+    if (child.type === "tree") {
+      collectObjects(child, childPath, format, objects, corruptTrees);
+    } else {
+      objects.push({ path: childPath, hash: child.hash });
+    }
+  }
+}
+
+export function checkRepository(cwd: string): FsckReport {
+  const subsysDir = path.join(cwd, ".subsys");
+  const objectsDir = path.join(subsysDir, "objects");
+  const snapshotDir = path.join(subsysDir, "snapshots");
+
+  const report: FsckReport = {
+    checkedObjects: 0,
+    checkedSnapshots: 0,
+    missingObjects: [],
+    corruptObjects: [],
+    orphanedObjects: [],
+    unreadableSnapshots: [],
+    corruptTrees: [],
+    danglingEntries: [],
+    untrackedSnapshots: [],
+    hashMismatches: [],
+  };
+
+  const format = readRepositoryFormat(cwd);
+
+  // Every stored object must hash to the name it is stored under
+  const storedObjects = listObjects(objectsDir);
+  for (const hash of storedObjects) {
+    if (!verifyObject(cwd, hash, format)) {
+      report.corruptObjects.push(hash);
+    }
+  }
+  report.checkedObjects = storedObjects.length;
+
+  const snapshotNames = fs.existsSync(snapshotDir)
+    ? fs
+        .readdirSync(snapshotDir)
+        .filter((file) => file.endsWith(".gz"))
+        .map((file) => path.basename(file, ".gz"))
+    : [];
+
+  let logTrack: ReturnType<typeof readLogTrack> = [];
+  try {
+    logTrack = readLogTrack(cwd);
+  } catch (error) {
+    report.unreadableSnapshots.push("logTrack.json");
+  }
+
+  const referenced = new Set<string>();
+  const storedSet = new Set(storedObjects);
+
+  for (const snapshotName of snapshotNames) {
+    report.checkedSnapshots++;
+
+    const snapshot = decompressSnapshot(
+      path.join(snapshotDir, `${snapshotName}.gz`)
+    );
+    if (!snapshot || !snapshot.tree) {
+      report.unreadableSnapshots.push(snapshotName);
+      continue;
+    }
+
+    const objects: { path: string; hash: string }[] = [];
+    const corruptTrees: string[] = [];
+    collectObjects(snapshot.tree, "", format, objects, corruptTrees);
+
+    corruptTrees.forEach((treePath) =>
+      report.corruptTrees.push({ snapshot: snapshotName, path: treePath })
+    );
+
+    for (const object of objects) {
+      referenced.add(object.hash);
+      if (!storedSet.has(object.hash)) {
+        report.missingObjects.push({ snapshot: snapshotName, ...object });
+      }
+    }
+
+    const entry = logTrack.find((item) => item.treeName === snapshotName);
+    if (!entry) {
+      report.untrackedSnapshots.push(snapshotName);
+    } else if (entry.SHA !== snapshot.tree.hash) {
+      report.hashMismatches.push({
+        snapshot: snapshotName,
+        expected: entry.SHA,
+        actual: snapshot.tree.hash,
+      });
+    }
+  }
+
+  for (const entry of logTrack) {
+    if (!snapshotNames.includes(entry.treeName)) {
+      report.danglingEntries.push(entry.treeName);
+    }
+  }
+
+  report.orphanedObjects = storedObjects.filter(
+    (hash) => !referenced.has(hash)
+  );
+
+  return report;
+}
+
+// Orphaned objects waste space but never break a snapshot
+export function hasErrors(report: FsckReport): boolean {
+  return (
+    report.missingObjects.length > 0 ||
+    report.corruptObjects.length > 0 ||
+    report.unreadableSnapshots.length > 0 ||
+    report.corruptTrees.length > 0 ||
+    report.danglingEntries.length > 0 ||
+    report.untrackedSnapshots.length > 0 ||
+    report.hashMismatches.length > 0
+  );
+}
+
+export function printFsckProblems(
+  report: FsckReport,
+  logger: Logger = consoleLogger
+) {
+  for (const object of report.missingObjects) {
+    logger.error(
+      `missing object ${object.hash} for '${object.path}' in snapshot '${object.snapshot}'`
+    );
+  }
+  for (const hash of report.corruptObjects) {
+    logger.error(`corrupt object ${hash}: content does not match its hash`);
+  }
+  for (const snapshotName of report.unreadableSnapshots) {
+    logger.error(`unreadable snapshot '${snapshotName}'`);
+  }
+  for (const tree of report.corruptTrees) {
+    logger.error(
+      `corrupt tree '${tree.path}' in snapshot '${tree.snapshot}': hash does not match its entries`
+    );
+  }
+  for (const mismatch of report.hashMismatches) {
+    logger.error(
+      `snapshot '${mismatch.snapshot}' has tree ${mismatch.actual}, logTrack.json records ${mismatch.expected}`
+    );
+  }
+  for (const snapshotName of report.danglingEntries) {
+    logger.error(
+      `dangling logTrack entry '${snapshotName}': snapshot file is missing`
+    );
+  }
+  for (const snapshotName of report.untrackedSnapshots) {
+    logger.error(
+      `untracked snapshot '${snapshotName}': not listed in logTrack.json`
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import * as path from "path";
+import { spawn } from "child_process";
+import { Logger, consoleLogger } from "./context.js";
+
+export type HookName = "pre-snap" | "pre-submit";
+
+export interface HookResult {
+  command: string;
+  exitCode: number;
+  output: string;
+}
+
+function readConfiguredHooks(cwd: string): Partial<Record<HookName, string>> {
+  try {
+    const configFile = path.join(cwd, ".subsys", "config.json");
+    return JSON.parse(fs.readFileSync(configFile, "utf-8")).hooks || {};
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * A script in .subsys/hooks wins over a command configured in config.json.
+ * Like git, a script that is not executable is skipped with a warning.
+ */
+function findHook(
+  cwd: string,
+  name: HookName,
+  logger: Logger
+): { command: string; shell: boolean } | undefined {
+  const hookFile = path.join(cwd, ".subsys", "hooks", name);
+
+  if (fs.existsSync(hookFile)) {
+    try {
+      fs.accessSync(hookFile, fs.constants.X_OK);
+      return { command: hookFile, shell: false };
+    } catch (error) {
+      logger.warn(
+        `Hook '${hookFile}' was ignored because it is not executable.`
+      );
+    }
+  }
+
+  const command = readConfiguredHooks(cwd)[name];
+  return command ? { command, shell: true } : undefined;
+}
+
+function getLogFile(cwd: string, name: HookName) {
+  return path.join(cwd, ".subsys", "logs", `${name}.log`);
+}
+
+/**
+ * Runs a hook in workDir with the context as SUBSYS_* environment variables
+ * and captures its output in .subsys/logs/<hook>.log. Returns undefined when
+ * no hook is set up.
+ */
+export function runHook(
+  cwd: string,
+  name: HookName,
+  workDir: string,
+  context: Record<string, string | undefined>,
+  logger: Logger = consoleLogger
+): Promise<HookResult | undefined> {
+  const hook = findHook(cwd, name, logger);
+
+  if (!hook) {
+    return Promise.resolve(undefined);
+  }
+
+  const env: NodeJS.ProcessEnv = { ...process.env, SUBSYS_HOOK: name };
+  for (const [key, value] of Object.entries(context)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    const child = spawn(hook.command, [], {
+      cwd: workDir,
+      env,
+      shell: hook.shell,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+    const finish = (exitCode: number, extra = "") => {
+      const output = Buffer.concat(chunks).toString("utf-8") + extra;
+      const logFile = getLogFile(cwd, name);
+
+      fs.mkdirSync(path.dirname(logFile), { recursive: true });
+      fs.writeFileSync(logFile, output);
+      resolve({ command: hook.command, exitCode, output });
+    };
+
+    child.on("error", (error) => finish(127, `${error.message}\n`));
+    child.on("close", (code, signal) =>
+      finish(code ?? 1, signal ? `Terminated by ${signal}\n` : "")
+    );
+  });
+}
+
+/**
+ * Runs a hook and reports the outcome. Returns false when the operation
+ * must be aborted.
+ */
+export async function verifyHook(
+  cwd: string,
+  name: HookName,
+  workDir: string,
+  context: Record<string, string | undefined>,
+  logger: Logger = consoleLogger
+): Promise<boolean> {
+  const result = await runHook(cwd, name, workDir, context, logger);
+
+  if (!result) {
+    return true;
+  }
+
+  if (result.exitCode === 0) {
+    logger.info(`${name} hook passed.`);
+    return true;
+  }
+
+  const output = result.output.trimEnd();
+  logger.error(
+    `${name} hook '${result.command}' failed with exit code ${result.exitCode}${output ? ":" : "."}`
+  );
+  if (output) {
+    for (const line of output.split("\n")) {
+      logger.error(`  ${line}`);
+    }
+  }
+  logger.error(
+    `Output saved to ${getLogFile(cwd, name)}. Use --no-verify to skip the hook.`
+  );
+  return false;
+}
@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface IgnoreRule {
+  pattern: string;
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+  // Directory the rule is relative to, posix-style and "" for the root
+  base: string;
+  source: string;
+  line: number;
+}
+
+export interface IgnoreMatcher {
+  rootDir: string;
+  useGitignore: boolean;
+  directoryRules: Map<string, IgnoreRule[]>;
+  // A copy of a directory under rootDir, matched as the directory itself
+  mount?: { dir: string; target: string };
+}
+
+const IGNORE_FILE = ".subsysignore";
+const BUILT_IN_PATTERNS = ["node_modules", "config.json"];
+
+function escapeRegex(char: string): string {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function patternToRegex(pattern: string, anchored: boolean): RegExp {
+  let source = "";
+  let i = 0;
+
+  while (i < pattern.length) {
+    const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+
+    if (atSegmentStart && pattern.startsWith("**/", i)) {
+      source += "(?:.*/)?";
+      i += 3;
+    } else if (atSegmentStart && pattern.slice(i) === "**") {
+      source += ".*";
+      i += 2;
+    } else if (pattern[i] === "*") {
+      source += "[^/]*";
+      i++;
+    } else if (pattern[i] === "?") {
+      source += "[^/]";
+      i++;
+    } else if (pattern[i] === "[" && pattern.indexOf("]", i + 2) !== -1) {
+      const end = pattern.indexOf("]", i + 2);
+      let characterClass = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      if (characterClass.startsWith("!")) {
+        characterClass = "^" + characterClass.slice(1);
+      }
+      source += `[${characterClass}]`;
+      i = end + 1;
+    } else if (pattern[i] === "\\" && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegex(pattern[i]);
+      i++;
+    }
+  }
+
+  return new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`);
+}
+
+export function parseIgnoreLine(
+  rawLine: string,
+  base: string,
+  source: string,
+  line: number
+): IgnoreRule | null {
+  // Trailing whitespace is dropped unless escaped with a backslash
+  let pattern = rawLine.replace(/(?<!\\)\s+$/, "").replace(/\\(\s)$/, "$1");
+
+  if (pattern === "" || pattern.startsWith("#")) {
+    return null;
+  }
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+
+  if (pattern === "") {
+    return null;
+  }
+
+  // A slash anywhere but the end anchors the pattern to its ignore file
+  const anchored = pattern.includes("/");
+  const body = pattern.startsWith("/") ? pattern.slice(1) : pattern;
+
+  return {
+    pattern: rawLine.trim(),
+    negate,
+    dirOnly,
+    regex: patternToRegex(body, anchored),
+    base,
+    source,
+    line,
+  };
+}
+
+function readIgnoreFile(filePath: string, base: string, source: string) {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split(/\r?\n/)
+    .map((line, index) => parseIgnoreLine(line, base, source, index + 1))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+function readUseGitignore(rootDir: string): boolean {
+  try {
+    const configFile = path.join(rootDir, ".subsys", "config.json");
+    return JSON.parse(fs.readFileSync(configFile, "utf-8")).useGitignore === true;
+  } catch (error) {
+    return false;
+  }
+}
+
+export function loadIgnoreMatcher(
+  rootDir: string,
+  useGitignore = readUseGitignore(rootDir)
+): IgnoreMatcher {
+  return { rootDir, useGitignore, directoryRules: new Map() };
+}
+
+function getDirectoryRules(matcher: IgnoreMatcher, relDir: string) {
+  let rules = matcher.directoryRules.get(relDir);
+
+  if (!rules) {
+    const dirPath = path.join(matcher.rootDir, relDir);
+    const prefix = relDir ? `${relDir}/` : "";
+    rules = [];
+
+    if (relDir === "") {
+      rules.push(
+        ...BUILT_IN_PATTERNS.map(
+          (pattern) => parseIgnoreLine(pattern, "", "(built-in)", 0)!
+        )
+      );
+    }
+
+    // Within a directory, .subsysignore takes precedence over .gitignore
+    if (matcher.useGitignore) {
+      rules.push(
+        ...readIgnoreFile(
+          path.join(dirPath, ".gitignore"),
+          relDir,
+          `${prefix}.gitignore`
+        )
+      );
+    }
+    rules.push(
+      ...readIgnoreFile(
+        path.join(dirPath, IGNORE_FILE),
+        relDir,
+        `${prefix}${IGNORE_FILE}`
+      )
+    );
+
+    matcher.directoryRules.set(relDir, rules);
+  }
+
+  return rules;
+}
+
+/**
+ * Matches files under dir with the rules snap applies to target, reading
+ * the ignore files from the repository. Restore hashes an --output copy of
+ * a snapshot this way.
+ */
+export function mountIgnoreMatcher(
+  matcher: IgnoreMatcher,
+  dir: string,
+  target: string
+): IgnoreMatcher {
+  return { ...matcher, mount: { dir, target } };
+}
+
+export function toRelativePath(matcher: IgnoreMatcher, entryPath: string) {
+  let resolvedPath = entryPath;
+
+  if (matcher.mount) {
+    const mountedPath = path.relative(matcher.mount.dir, entryPath);
+    if (!mountedPath.startsWith("..") && !path.isAbsolute(mountedPath)) {
+      resolvedPath = path.join(matcher.mount.target, mountedPath);
+    }
+  }
+
+  return path.relative(matcher.rootDir, resolvedPath).split(path.sep).join("/");
+}
+
+/**
+ * Finds the last rule matching the path itself, assuming its parent
+ * directories were already checked, as they are during a tree walk.
+ */
+export function matchIgnoreRule(
+  matcher: IgnoreMatcher,
+  relPath: string,
+  isDirectory: boolean
+): IgnoreRule | undefined {
+  const segments = relPath.split("/");
+  let match: IgnoreRule | undefined;
+
+  // Rules from deeper ignore files are evaluated last and so win
+  for (let depth = 0; depth < segments.length; depth++) {
+    const relDir = segments.slice(0, depth).join("/");
+
+    for (const rule of getDirectoryRules(matcher, relDir)) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+
+      const target = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+      if (rule.regex.test(target)) {
+        match = rule;
+      }
+    }
+  }
+
+  return match;
+}
+
+export function isIgnored(
+  matcher: IgnoreMatcher,
+  relPath: string,
+  isDirectory: boolean
+): boolean {
+  const rule = matchIgnoreRule(matcher, relPath, isDirectory);
+  return rule !== undefined && !rule.negate;
+}
+
+/**
+ * Like matchIgnoreRule, but also reports a rule that excludes one of the
+ * parent directories, since files below an ignored directory cannot be
+ * re-included.
+ */
+export function explainIgnore(
+  matcher: IgnoreMatcher,
+  relPath: string,
+  isDirectory: boolean
+): IgnoreRule | undefined {
+  const segments = relPath.split("/");
+
+  for (let depth = 1; depth < segments.length; depth++) {
+    const parentRule = matchIgnoreRule(
+      matcher,
+      segments.slice(0, depth).join("/"),
+      true
+    );
+    if (parentRule && !parentRule.negate) {
+      return parentRule;
+    }
+  }
+
+  return matchIgnoreRule(matcher, relPath, isDirectory);
+}
@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveHead } from "./refs.js";
+
+export interface LogEntry {
+  treeName: string;
+  SHA: string;
+  createdAt?: string;
+  fileCount?: number;
+  totalSize?: number;
+  message?: string;
+  author?: string;
+  // Tree hash of the snapshot HEAD pointed at when this one was taken
+  parent?: string;
+  assignment?: string;
+  submitted?: boolean;
+  submittedAt?: string;
+}
+
+// Snapshot names become file names, so only slugs are accepted
+export function isValidSnapshotName(snapshotName: string): boolean {
+  const sanitizedSnapshotName = snapshotName
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .toLowerCase();
+
+  return snapshotName !== "" && sanitizedSnapshotName === snapshotName;
+}
+
+export function getLogTrackPath(cwd: string): string {
+  return path.join(cwd, ".subsys", "snapshots", "logTrack.json");
+}
+
+export function readLogTrack(cwd: string): LogEntry[] {
+  const logTrackPath = getLogTrackPath(cwd);
+
+  if (!fs.existsSync(logTrackPath)) {
+    return [];
+  }
+
+  return JSON.parse(fs.readFileSync(logTrackPath, "utf-8"));
+}
+
+export function writeLogTrack(cwd: string, logTrack: LogEntry[]) {
+  const logTrackPath = getLogTrackPath(cwd);
+
+  fs.mkdirSync(path.dirname(logTrackPath), { recursive: true });
+  fs.writeFileSync(logTrackPath, JSON.stringify(logTrack, null, 2));
+}
+
+export function markSubmitted(cwd: string, snapshotName: string) {
+  const logTrack = readLogTrack(cwd);
+  const entry = logTrack.find((item) => item.treeName === snapshotName);
+
+  if (entry) {
+    entry.submitted = true;
+    entry.submittedAt = new Date().toISOString();
+    writeLogTrack(cwd, logTrack);
+  }
+}
+
+export function getLatestEntry(
+  cwd: string,
+  assignment?: string
+): LogEntry | undefined {
+  const logTrack = readLogTrack(cwd).filter(
+    (entry) => assignment === undefined || entry.assignment === assignment
+  );
+  return logTrack[logTrack.length - 1];
+}
+
+export function findEntryByHash(
+  cwd: string,
+  hash: string
+): LogEntry | undefined {
+  return readLogTrack(cwd).find((entry) => entry.SHA === hash);
+}
+
+// Follows parent pointers from a snapshot back to the first one
+export function walkHistory(cwd: string, hash: string | undefined): LogEntry[] {
+  const byHash = new Map(readLogTrack(cwd).map((entry) => [entry.SHA, entry]));
+  const history: LogEntry[] = [];
+  const seen = new Set<string>();
+
+  while (hash && byHash.has(hash) && !seen.has(hash)) {
+    const entry = byHash.get(hash)!;
+    history.push(entry);
+    seen.add(hash);
+    hash = entry.parent;
+  }
+
+  return history;
+}
+
+/**
+ * The snapshot the working directory is based on: the newest one on the
+ * current branch, for one assignment when given. Repositories from before
+ * refs existed fall back to the latest snapshot.
+ */
+export function getHeadEntry(
+  cwd: string,
+  assignment?: string
+): LogEntry | undefined {
+  const head = resolveHead(cwd);
+
+  if (!head) {
+    return getLatestEntry(cwd, assignment);
+  }
+
+  return walkHistory(cwd, head).find(
+    (entry) => assignment === undefined || entry.assignment === assignment
+  );
+}
@@ -0,0 +1,308 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { TreeObject } from "./tree.js";
+
+export type HashAlgorithm = "sha1" | "sha256";
+export type ObjectType = "blob" | "tree";
+
+/**
+ * Version 1 stores raw file bytes named by the SHA-1 of their content and
+ * embeds whole trees in the snapshot files. Version 2 stores zlib-compressed
+ * objects with a "<type> <length>\0" header, hashed together with the
+ * header, and keeps trees as objects of their own.
+ */
+export interface RepositoryFormat {
+  version: 1 | 2;
+  hashAlgorithm: HashAlgorithm;
+}
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ["sha1", "sha256"];
+
+const LEGACY_FORMAT: RepositoryFormat = { version: 1, hashAlgorithm: "sha1" };
+
+function getFormatFile(cwd: string) {
+  return path.join(cwd, ".subsys", "format.json");
+}
+
+/**
+ * Written by migrate once everything is staged. From then on the migration
+ * only moves staged files into place, which can be repeated until it is
+ * complete.
+ */
+export function getMigrationMarker(cwd: string) {
+  return path.join(cwd, ".subsys", "migration", "ready.json");
+}
+
+export function readRepositoryFormat(cwd: string): RepositoryFormat {
+  const formatFile = getFormatFile(cwd);
+
+  // Objects and snapshots may already be converted while format.json is not
+  if (fs.existsSync(getMigrationMarker(cwd))) {
+    throw new Error(
+      "A migration was interrupted. Run 'subsys migrate' to finish it."
+    );
+  }
+
+  // Repositories created before the format file existed are version 1
+  if (!fs.existsSync(formatFile)) {
+    return LEGACY_FORMAT;
+  }
+
+  const format = JSON.parse(fs.readFileSync(formatFile, "utf-8"));
+  if (format.version !== 2 || !HASH_ALGORITHMS.includes(format.hashAlgorithm)) {
+    throw new Error(`Unsupported repository format in ${formatFile}`);
+  }
+
+  return format;
+}
+
+export function writeRepositoryFormat(cwd: string, format: RepositoryFormat) {
+  fs.writeFileSync(getFormatFile(cwd), JSON.stringify(format, null, 2));
+}
+
+export function getObjectFile(
+  baseDir: string,
+  hash: string,
+  objectsDir = path.join(baseDir, ".subsys", "objects")
+) {
+  return path.join(objectsDir, hash.slice(0, 2), hash.slice(2));
+}
+
+function objectHeader(type: ObjectType, length: number): Buffer {
+  return Buffer.from(`${type} ${length}\0`);
+}
+
+export function serializeTree(children: TreeObject[]): Buffer {
+  const entries = children.map((child) =>
+    child.type === "blob"
+      ? { type: child.type, name: child.name, hash: child.hash, size: child.size }
+      : { type: child.type, name: child.name, hash: child.hash }
+  );
+
+  return Buffer.from(JSON.stringify(entries));
+}
+
+export function hashObject(
+  type: ObjectType,
+  payload: Buffer,
+  format: RepositoryFormat
+): string {
+  const hash = crypto.createHash(format.hashAlgorithm);
+
+  if (format.version === 2) {
+    hash.update(objectHeader(type, payload.length));
+  }
+  hash.update(payload);
+
+  return hash.digest("hex");
+}
+
+/**
+ * Streams a file through the hash so large files are never held in memory.
+ */
+export function hashFile(
+  filePath: string,
+  size: number,
+  format: RepositoryFormat
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(format.hashAlgorithm);
+
+    if (format.version === 2) {
+      hash.update(objectHeader("blob", size));
+    }
+
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+export function hashTree(
+  children: TreeObject[],
+  format: RepositoryFormat
+): string {
+  if (format.version === 2) {
+    return hashObject("tree", serializeTree(children), format);
+  }
+
+  // Concatenate and hash the serialized tree objects
+  const serializedTree = children
+    .map((obj) => `${obj.type} ${obj.name}\0${obj.hash}`)
+    .join("");
+  const hash = crypto.createHash("sha1");
+  hash.update(serializedTree);
+
+  return hash.digest("hex");
+}
+
+export function encodeObject(type: ObjectType, payload: Buffer): Buffer {
+  return zlib.deflateSync(
+    Buffer.concat([objectHeader(type, payload.length), payload])
+  );
+}
+
+export function decodeObject(data: Buffer): {
+  type: ObjectType;
+  payload: Buffer;
+} {
+  const raw = zlib.inflateSync(data);
+  const headerEnd = raw.indexOf(0);
+  const match = raw
+    .subarray(0, headerEnd)
+    .toString()
+    .match(/^(blob|tree) (\d+)$/);
+
+  if (headerEnd === -1 || !match) {
+    throw new Error("Invalid object header");
+  }
+
+  const payload = raw.subarray(headerEnd + 1);
+  if (payload.length !== parseInt(match[2], 10)) {
+    throw new Error("Object length does not match its header");
+  }
+
+  return { type: match[1] as ObjectType, payload };
+}
+
+/**
+ * Stores an object and returns its hash. Objects that already exist are
+ * left untouched, since the same hash always means the same content, so
+ * each one is written to a temporary file and renamed into place: an
+ * interrupted write never leaves a partial object behind.
+ */
+export function writeObject(
+  cwd: string,
+  type: ObjectType,
+  payload: Buffer,
+  format: RepositoryFormat,
+  objectsDir?: string
+): string {
+  const hash = hashObject(type, payload, format);
+  const objectFile = getObjectFile(cwd, hash, objectsDir);
+
+  if (!fs.existsSync(objectFile)) {
+    const tempFile = `${objectFile}.${process.pid}.tmp`;
+    fs.mkdirSync(path.dirname(objectFile), { recursive: true });
+    try {
+      fs.writeFileSync(
+        tempFile,
+        format.version === 2 ? encodeObject(type, payload) : payload
+      );
+      fs.renameSync(tempFile, objectFile);
+    } catch (error) {
+      fs.rmSync(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  return hash;
+}
+
+export function readObject(
+  baseDir: string,
+  hash: string,
+  format = readRepositoryFormat(baseDir)
+): Buffer | null {
+  const objectFile = getObjectFile(baseDir, hash);
+
+  if (!fs.existsSync(objectFile)) {
+    return null;
+  }
+
+  const data = fs.readFileSync(objectFile);
+  return format.version === 2 ? decodeObject(data).payload : data;
+}
+
+export function verifyObject(
+  baseDir: string,
+  hash: string,
+  format: RepositoryFormat
+): boolean {
+  try {
+    const data = fs.readFileSync(getObjectFile(baseDir, hash));
+
+    if (format.version === 1) {
+      return hashObject("blob", data, format) === hash;
+    }
+
+    const { type, payload } = decodeObject(data);
+    return hashObject(type, payload, format) === hash;
+  } catch (error) {
+    return false;
+  }
+}
+
+export function readTreeObject(
+  baseDir: string,
+  hash: string,
+  format: RepositoryFormat,
+  name = ""
+): TreeObject {
+  const objectFile = getObjectFile(baseDir, hash);
+
+  if (!fs.existsSync(objectFile)) {
+    throw new Error(`Tree object ${hash} not found`);
+  }
+
+  const { type, payload } = decodeObject(fs.readFileSync(objectFile));
+  if (type !== "tree") {
+    throw new Error(`Object ${hash} is a ${type}, expected a tree`);
+  }
+
+  const entries: TreeObject[] = JSON.parse(payload.toString());
+
+  return {
+    type: "tree",
+    name,
+    hash,
+    children: entries.map((entry) =>
+      entry.type === "tree"
+        ? readTreeObject(baseDir, entry.hash, format, entry.name)
+        : entry
+    ),
+  };
+}
+
+/**
+ * Stores every blob of a tree calculated from sourceDir and, for version 2,
+ * the tree objects themselves. Files whose object already exists are not
+ * read at all.
+ */
+export function storeTree(
+  cwd: string,
+  tree: TreeObject,
+  sourceDir: string,
+  format: RepositoryFormat,
+  stats = { written: 0, skipped: 0 }
+): { written: number; skipped: number } {
+  for (const child of tree.children || []) {
+    const childPath = path.join(sourceDir, child.name);
+
+    if (child.type === "tree") {
+      storeTree(cwd, child, childPath, format, stats);
+    } else if (fs.existsSync(getObjectFile(cwd, child.hash))) {
+      stats.skipped++;
+    } else {
+      const hash = writeObject(cwd, "blob", fs.readFileSync(childPath), format);
+      if (hash !== child.hash) {
+        throw new Error(`File '${childPath}' changed while it was being stored`);
+      }
+      stats.written++;
+    }
+  }
+
+  if (format.version === 2) {
+    if (fs.existsSync(getObjectFile(cwd, tree.hash))) {
+      stats.skipped++;
+    } else {
+      writeObject(cwd, "tree", serializeTree(tree.children || []), format);
+      stats.written++;
+    }
+  }
+
+  return stats;
+}
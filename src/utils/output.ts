@@ -0,0 +1,144 @@
+import { ErrorCode, SubsysError, classifyError } from "./errors.js";
+import { Prompt } from "./context.js";
+
+/**
+ * Exit codes shared by every command, so scripts can tell failures apart.
+ * They are listed in `subsys --help`.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  notInitialized: 3,
+  authentication: 4,
+  unreachable: 5,
+  rejected: 6,
+  validation: 7,
+  queued: 8,
+} as const;
+
+export const EXIT_CODE_HELP = `
+Exit codes:
+  0  success
+  1  failure not covered below
+  2  invalid arguments or options
+  3  repository not initialized or not configured
+  4  authentication failed
+  5  backend could not be reached
+  6  rejected by the backend: unknown assignment or deadline passed
+  7  refused locally: policy violation, failed hook or damaged repository
+  8  submission queued for 'subsys push' instead of delivered`;
+
+const ERROR_EXIT_CODES: Record<ErrorCode, number> = {
+  FAILED: EXIT_CODES.failure,
+  INVALID_ARGUMENT: EXIT_CODES.usage,
+  NOT_INITIALIZED: EXIT_CODES.notInitialized,
+  NOT_CONFIGURED: EXIT_CODES.notInitialized,
+  NOT_FOUND: EXIT_CODES.failure,
+  ALREADY_EXISTS: EXIT_CODES.failure,
+  UP_TO_DATE: EXIT_CODES.failure,
+  CONFLICT: EXIT_CODES.failure,
+  AUTHENTICATION_FAILED: EXIT_CODES.authentication,
+  BACKEND_UNREACHABLE: EXIT_CODES.unreachable,
+  BACKEND_ERROR: EXIT_CODES.failure,
+  ASSIGNMENT_NOT_FOUND: EXIT_CODES.rejected,
+  DEADLINE_PASSED: EXIT_CODES.rejected,
+  POLICY_VIOLATION: EXIT_CODES.validation,
+  HOOK_FAILED: EXIT_CODES.validation,
+  REPOSITORY_DAMAGED: EXIT_CODES.validation,
+  QUEUED: EXIT_CODES.queued,
+};
+
+// Commands that produce a JSON document with --json
+export const JSON_COMMANDS = [
+  "init",
+  "config",
+  "config get",
+  "config set",
+  "config unset",
+  "config list",
+  "snap",
+  "submit",
+];
+
+let jsonOutput = false;
+let commandName = "";
+let result: Record<string, unknown> = {};
+
+/**
+ * Reserves stdout for the JSON document. Messages meant for people still
+ * go out, on stderr.
+ */
+export function enableJsonOutput() {
+  jsonOutput = true;
+  console.log = console.error;
+  console.info = console.error;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+export function setCommandName(name: string) {
+  commandName = name;
+}
+
+function writeJson(document: Record<string, unknown>) {
+  process.stdout.write(JSON.stringify(document) + "\n");
+}
+
+// Adds fields to the result printed once the command succeeds
+export function recordResult(fields: object) {
+  result = { ...result, ...fields };
+}
+
+export function printResult() {
+  if (jsonOutput) {
+    writeJson({ ok: true, command: commandName, result });
+  }
+}
+
+/**
+ * Reports an error and exits with the code that belongs to it. Details
+ * only appear in JSON output; print them beforehand for people.
+ */
+export function fail(code: ErrorCode, message: string, details?: unknown): never {
+  const exitCode = ERROR_EXIT_CODES[code];
+
+  if (jsonOutput) {
+    writeJson({
+      ok: false,
+      command: commandName,
+      exitCode,
+      error: { code, message, details },
+    });
+  } else {
+    console.error(message);
+  }
+
+  process.exit(exitCode);
+}
+
+// Ends the CLI for an error thrown by an operation
+export function reportError(error: unknown): never {
+  if (error instanceof SubsysError) {
+    fail(error.code, error.message, error.details);
+  }
+  fail(classifyError(error), (error as Error).message);
+}
+
+// Scripts reading JSON cannot answer a prompt
+export const jsonPrompt: Prompt = {
+  input: async (message) => {
+    throw new SubsysError(
+      "INVALID_ARGUMENT",
+      `Cannot ask '${message}' with --json, pass it as an option.`
+    );
+  },
+  password: async () => {
+    throw new SubsysError(
+      "INVALID_ARGUMENT",
+      "No saved session and no password given, use --password-stdin or SUBSYS_PASSWORD."
+    );
+  },
+};
@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TreeObject } from "./tree.js";
+import { IgnoreRule, parseIgnoreLine } from "./ignore.js";
+import { formatBytes } from "./format.js";
+
+export interface Policy {
+  // Bytes, or a string such as "50 MB"
+  maxTotalSize?: number | string;
+  maxFileSize?: number | string;
+  requiredPaths?: string[];
+  // Patterns with .subsysignore syntax
+  forbidden?: string[];
+  // Extensions such as ".ts", "" allows files without one
+  allowedExtensions?: string[];
+}
+
+export interface PolicyViolation {
+  path?: string;
+  message: string;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+};
+
+export function parseSize(value: number | string): number {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([KMG]?B)?\s*$/i.exec(value);
+  if (!match) {
+    throw new Error(`'${value}' is not a size, use bytes or a value like "50 MB".`);
+  }
+  return Math.floor(
+    Number(match[1]) * SIZE_UNITS[(match[2] || "B").toUpperCase()]
+  );
+}
+
+export function getPolicyFile(cwd: string): string {
+  return path.join(cwd, ".subsys", "policy.json");
+}
+
+// Policies sent with an assignment are kept so snap can check them offline
+export function getAssignmentPolicyFile(cwd: string, assignmentCode: string): string {
+  return path.join(cwd, ".subsys", "policies", `${assignmentCode}.json`);
+}
+
+export function saveAssignmentPolicy(
+  cwd: string,
+  assignmentCode: string,
+  policy: Policy
+) {
+  const policyFile = getAssignmentPolicyFile(cwd, assignmentCode);
+
+  fs.mkdirSync(path.dirname(policyFile), { recursive: true });
+  fs.writeFileSync(policyFile, JSON.stringify(policy, null, 2));
+}
+
+function readPolicyFile(policyFile: string): Policy | undefined {
+  if (!fs.existsSync(policyFile)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(policyFile, "utf-8"));
+  } catch (error) {
+    throw new Error(`Policy file '${policyFile}' is not valid JSON.`);
+  }
+}
+
+function normalizeExtension(extension: string): string {
+  const lower = extension.toLowerCase();
+  return lower === "" || lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+/**
+ * Combines the repository's policy with the assignment's, the saved one
+ * unless assignmentPolicy is given. Where both set a rule the stricter one
+ * applies.
+ */
+export function loadPolicy(
+  cwd: string,
+  assignmentCode?: string,
+  assignmentPolicy?: Policy
+): Policy | undefined {
+  const policies = [
+    readPolicyFile(getPolicyFile(cwd)),
+    assignmentPolicy ??
+      (assignmentCode
+        ? readPolicyFile(getAssignmentPolicyFile(cwd, assignmentCode))
+        : undefined),
+  ].filter((policy): policy is Policy => policy !== undefined);
+
+  if (policies.length === 0) {
+    return undefined;
+  }
+
+  const smallest = (key: "maxTotalSize" | "maxFileSize") => {
+    const sizes = policies
+      .filter((policy) => policy[key] !== undefined)
+      .map((policy) => parseSize(policy[key]!));
+    return sizes.length > 0 ? Math.min(...sizes) : undefined;
+  };
+
+  const extensionLists = policies
+    .filter((policy) => policy.allowedExtensions !== undefined)
+    .map((policy) => policy.allowedExtensions!.map(normalizeExtension));
+
+  return {
+    maxTotalSize: smallest("maxTotalSize"),
+    maxFileSize: smallest("maxFileSize"),
+    requiredPaths: [
+      ...new Set(policies.flatMap((policy) => policy.requiredPaths || [])),
+    ],
+    forbidden: [...new Set(policies.flatMap((policy) => policy.forbidden || []))],
+    allowedExtensions:
+      extensionLists.length > 0
+        ? extensionLists.reduce((allowed, list) =>
+            allowed.filter((extension) => list.includes(extension))
+          )
+        : undefined,
+  };
+}
+
+/**
+ * Checks a tree against a policy and returns every violation. Blob sizes
+ * come from the tree unless sizeOf can tell them better.
+ */
+export function checkPolicy(
+  tree: TreeObject,
+  policy: Policy,
+  sizeOf: (blob: TreeObject) => number = (blob) => blob.size || 0
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const maxFileSize =
+    policy.maxFileSize !== undefined ? parseSize(policy.maxFileSize) : undefined;
+  const forbiddenRules = (policy.forbidden || [])
+    .map((pattern, index) => parseIgnoreLine(pattern, "", "policy", index + 1))
+    .filter((rule): rule is IgnoreRule => rule !== null);
+  const allowedExtensions = policy.allowedExtensions?.map(normalizeExtension);
+  const files = new Set<string>();
+  const directories = new Set<string>();
+  let totalSize = 0;
+
+  const visit = (node: TreeObject, prefix: string) => {
+    for (const child of node.children || []) {
+      const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+      const isDirectory = child.type === "tree";
+
+      const rule = forbiddenRules.find(
+        (candidate) =>
+          !candidate.negate &&
+          (!candidate.dirOnly || isDirectory) &&
+          candidate.regex.test(childPath)
+      );
+      if (rule) {
+        violations.push({
+          path: childPath,
+          message: `matches forbidden pattern '${rule.pattern}'`,
+        });
+      }
+
+      if (isDirectory) {
+        directories.add(childPath);
+        // Everything below a forbidden directory is already reported
+        if (!rule) {
+          visit(child, childPath);
+        }
+        continue;
+      }
+
+      const size = sizeOf(child);
+      files.add(childPath);
+      totalSize += size;
+
+      if (maxFileSize !== undefined && size > maxFileSize) {
+        violations.push({
+          path: childPath,
+          message: `is ${formatBytes(size)}, larger than the ${formatBytes(maxFileSize)} allowed per file`,
+        });
+      }
+
+      const extension = path.posix.extname(child.name).toLowerCase();
+      if (allowedExtensions && !allowedExtensions.includes(extension)) {
+        violations.push({
+          path: childPath,
+          message: extension
+            ? `has extension '${extension}', which is not allowed`
+            : "has no extension, which is not allowed",
+        });
+      }
+    }
+  };
+
+  visit(tree, "");
+
+  for (const requiredPath of policy.requiredPaths || []) {
+    const wantsDirectory = requiredPath.endsWith("/");
+    const normalized = requiredPath.replace(/^\/+|\/+$/g, "");
+    const present = wantsDirectory
+      ? directories.has(normalized)
+      : files.has(normalized) || directories.has(normalized);
+
+    if (!present) {
+      violations.push({ path: requiredPath, message: "is required but missing" });
+    }
+  }
+
+  if (policy.maxTotalSize !== undefined) {
+    const maxTotalSize = parseSize(policy.maxTotalSize);
+    if (totalSize > maxTotalSize) {
+      violations.push({
+        message: `Total size ${formatBytes(totalSize)} is over the ${formatBytes(maxTotalSize)} limit`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+export function formatViolation(violation: PolicyViolation): string {
+  return violation.path
+    ? `'${violation.path}' ${violation.message}`
+    : violation.message;
+}
@@ -0,0 +1,97 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PayloadPart, SubmissionPayload } from "./upload.js";
+
+/**
+ * A submission that could not reach the backend. Its payload files are
+ * copied next to item.json, so the queue survives changes to the snapshot.
+ */
+export interface QueuedSubmission extends SubmissionPayload {
+  id: string;
+  snapshot: string;
+  treeHash: string;
+  assignmentCode: string;
+  backendUrl: string;
+  uploadFormat: string;
+  attemptedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export function getQueueDir(cwd: string): string {
+  return path.join(cwd, ".subsys", "queue");
+}
+
+function getItemFile(cwd: string, id: string): string {
+  return path.join(getQueueDir(cwd), id, "item.json");
+}
+
+export function enqueueSubmission(
+  cwd: string,
+  submission: Omit<QueuedSubmission, "id" | "attempts">
+): QueuedSubmission {
+  const id = `${Date.now()}-${submission.snapshot}`;
+  const itemDir = path.join(getQueueDir(cwd), id);
+  fs.mkdirSync(itemDir, { recursive: true });
+
+  const parts: PayloadPart[] = submission.parts.map((part, index) => {
+    const file = `part-${index}`;
+    fs.copyFileSync(part.file, path.join(itemDir, file));
+    return { ...part, file };
+  });
+
+  const item: QueuedSubmission = { ...submission, id, parts, attempts: 1 };
+  writeQueuedSubmission(cwd, item);
+  return item;
+}
+
+export function writeQueuedSubmission(cwd: string, item: QueuedSubmission) {
+  fs.writeFileSync(getItemFile(cwd, item.id), JSON.stringify(item, null, 2));
+}
+
+export function readQueue(cwd: string): QueuedSubmission[] {
+  const queueDir = getQueueDir(cwd);
+
+  if (!fs.existsSync(queueDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(queueDir)
+    .filter((id) => fs.existsSync(getItemFile(cwd, id)))
+    .map((id) => JSON.parse(fs.readFileSync(getItemFile(cwd, id), "utf-8")))
+    .sort((a: QueuedSubmission, b: QueuedSubmission) =>
+      a.attemptedAt.localeCompare(b.attemptedAt)
+    );
+}
+
+/**
+ * Points queued items at their snapshots' new tree hashes after a migrate.
+ * The payloads were built before and are sent unchanged.
+ */
+export function remapQueue(cwd: string, hashes: Map<string, string>) {
+  for (const item of readQueue(cwd)) {
+    const treeHash = hashes.get(item.treeHash);
+    if (treeHash) {
+      writeQueuedSubmission(cwd, { ...item, treeHash });
+    }
+  }
+}
+
+// Payload part files are stored relative to their queue entry
+export function getQueuedPayload(
+  cwd: string,
+  item: QueuedSubmission
+): SubmissionPayload {
+  return {
+    parts: item.parts.map((part) => ({
+      ...part,
+      file: path.join(getQueueDir(cwd), item.id, part.file),
+    })),
+    fields: item.fields,
+  };
+}
+
+export function removeQueuedSubmission(cwd: string, id: string) {
+  fs.rmSync(path.join(getQueueDir(cwd), id), { recursive: true, force: true });
+}
@@ -1,15 +1,11 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as zlib from "zlib";
+import { readObject, readRepositoryFormat, readTreeObject } from "./objects.js";
+import { TreeObject } from "./tree.js";
+import { Logger, consoleLogger } from "./context.js";
 
-interface TreeObject {
-  type: "tree" | "blob";
-  name: string;
-  hash: string;
-  children?: TreeObject[];
-}
-
-interface TreeSnapshot {
+export interface TreeSnapshot {
   tree: TreeObject;
   files: {
     name: string;
@@ -18,7 +14,10 @@ interface TreeSnapshot {
   }[];
 }
 
-export function decompressSnapshot(snapshotFile: string): TreeSnapshot | null {
+export function decompressSnapshot(
+  snapshotFile: string,
+  logger: Logger = consoleLogger
+): TreeSnapshot | null {
   try {
     // Check if the file is a regular file and ends with ".gz" extension
     const fileStats = fs.statSync(snapshotFile);
@@ -28,21 +27,54 @@ export function decompressSnapshot(snapshotFile: string): TreeSnapshot | null {
 
     const compressedSnapshot = fs.readFileSync(snapshotFile);
     const decompressedSnapshot = zlib.gunzipSync(compressedSnapshot);
-    return JSON.parse(decompressedSnapshot.toString());
+    const snapshot = JSON.parse(decompressedSnapshot.toString());
+
+    // Version 2 snapshots only reference their root tree object
+    if (snapshot.version === 2) {
+      const baseDir = path.resolve(path.dirname(snapshotFile), "..", "..");
+      return {
+        tree: readTreeObject(
+          baseDir,
+          snapshot.tree,
+          readRepositoryFormat(baseDir)
+        ),
+        files: [],
+      };
+    }
+
+    return snapshot;
   } catch (error) {
-    console.error(
-      "Error decompressing or parsing snapshot file:",
-      snapshotFile,
-      error
+    logger.error(
+      `Error decompressing or parsing snapshot file: ${snapshotFile} (${(error as Error).message})`
     );
     return null;
   }
 }
 
+export function getSnapshotFile(baseDir: string, snapshotName: string) {
+  return path.join(baseDir, ".subsys", "snapshots", `${snapshotName}.gz`);
+}
+
+export function readSnapshotTree(
+  baseDir: string,
+  snapshotName: string,
+  logger: Logger = consoleLogger
+): TreeObject | null {
+  const snapshotFile = getSnapshotFile(baseDir, snapshotName);
+
+  if (!fs.existsSync(snapshotFile)) {
+    return null;
+  }
+
+  const snapshot = decompressSnapshot(snapshotFile, logger);
+  return snapshot ? snapshot.tree : null;
+}
+
 export function recreateTree(
   snapshot: TreeSnapshot,
   baseDir: string,
-  snapName?: string
+  snapName?: string,
+  logger: Logger = consoleLogger
 ) {
   if (snapName === undefined) {
     const snapshotsFolder = path.join(baseDir, ".subsys", "snapshots");
@@ -53,9 +85,14 @@ export function recreateTree(
     // Iterate over each snapshot file and recreate the tree
     snapshotFiles.forEach((snapshotFile) => {
       const fullSnapshotPath = path.join(snapshotsFolder, snapshotFile);
-      const snapshot = decompressSnapshot(fullSnapshotPath);
+      const snapshot = decompressSnapshot(fullSnapshotPath, logger);
       if (snapshot !== null) {
-        recreateTree(snapshot, baseDir, snapshotFile.replace(".json.gz", ""));
+        recreateTree(
+          snapshot,
+          baseDir,
+          snapshotFile.replace(".json.gz", ""),
+          logger
+        );
       }
     });
   } else {
@@ -74,43 +111,38 @@ export function recreateTree(
 
     for (const fileObject of treeObjects) {
       const filePath = path.join(directoryPath, fileObject.name);
-      const objectDir = path.join(baseDir, ".subsys", "objects");
 
       // Check if the fileObject is a file, not a directory
       if (fileObject.type === "blob") {
         if (fs.statSync(filePath).isFile()) {
-          const objectFile = path.join(
-            objectDir,
-            fileObject.hash.slice(0, 2),
-            fileObject.hash.slice(2)
-          );
+          const fileContent = readObject(baseDir, fileObject.hash);
 
-          if (fs.existsSync(objectFile)) {
-            const fileContent = fs.readFileSync(objectFile);
+          if (fileContent !== null) {
             fs.writeFileSync(filePath, fileContent, "utf-8");
           } else {
-            console.error(
+            logger.error(
               `Error recreating file '${filePath}': corresponding object file not found.`
             );
           }
         } else {
-          console.error(
+          logger.error(
             `Error recreating file '${filePath}': it is not a file.`
           );
         }
       }
     }
 
-    recreateTreeHelper(tree, directoryPath, baseDir);
+    recreateTreeHelper(tree, directoryPath, baseDir, logger);
 
-    console.log(`Recreated tree '${tree.name}' successfully.`);
+    logger.info(`Recreated tree '${tree.name}' successfully.`);
   }
 }
 
 function recreateTreeHelper(
   tree: TreeObject,
   parentPath: string,
-  baseDir: string
+  baseDir: string,
+  logger: Logger
 ) {
   for (const childObject of tree.children || []) {
     const childPath = path.join(parentPath, childObject.name);
@@ -118,20 +150,14 @@ function recreateTreeHelper(
     if (childObject.type === "tree") {
       // Recursively recreate the tree for subdirectories
       fs.mkdirSync(childPath, { recursive: true });
-      recreateTreeHelper(childObject, childPath, baseDir);
+      recreateTreeHelper(childObject, childPath, baseDir, logger);
     } else if (childObject.type === "blob") {
-      const objectDir = path.join(baseDir, ".subsys", "objects");
-      const objectFile = path.join(
-        objectDir,
-        childObject.hash.slice(0, 2),
-        childObject.hash.slice(2)
-      );
-
-      if (fs.existsSync(objectFile)) {
-        const fileContent = fs.readFileSync(objectFile);
+      const fileContent = readObject(baseDir, childObject.hash);
+
+      if (fileContent !== null) {
         fs.writeFileSync(childPath, fileContent, "utf-8");
       } else {
-        console.error(
+        logger.error(
           `Error recreating file '${childPath}': corresponding object file not found.`
         );
       }
@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Refs hold the tree hash of a snapshot, which survives renames
+const DEFAULT_REF = "refs/heads/master";
+
+function getRefPath(cwd: string, ref: string): string {
+  return path.join(cwd, ".subsys", ...ref.split("/"));
+}
+
+export function getCurrentBranch(cwd: string): string | undefined {
+  const headFile = path.join(cwd, ".subsys", "HEAD");
+
+  if (!fs.existsSync(headFile)) {
+    return undefined;
+  }
+
+  const head = fs.readFileSync(headFile, "utf-8").trim();
+  const match = head.match(/^ref: refs\/heads\/(.+)$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Reads HEAD, which names a branch ref, or a tree hash when detached.
+ * Repositories without HEAD are on master.
+ */
+export function readHead(cwd: string): { ref?: string; hash?: string } {
+  const headPath = path.join(cwd, ".subsys", "HEAD");
+
+  if (!fs.existsSync(headPath)) {
+    return { ref: DEFAULT_REF };
+  }
+
+  const content = fs.readFileSync(headPath, "utf-8").trim();
+  return content.startsWith("ref: ")
+    ? { ref: content.slice("ref: ".length).trim() }
+    : { hash: content };
+}
+
+export function writeHead(cwd: string, head: { ref?: string; hash?: string }) {
+  fs.writeFileSync(
+    path.join(cwd, ".subsys", "HEAD"),
+    head.ref ? `ref: ${head.ref}` : head.hash!
+  );
+}
+
+export function readRef(cwd: string, ref: string): string | undefined {
+  const refPath = getRefPath(cwd, ref);
+
+  if (!fs.existsSync(refPath)) {
+    return undefined;
+  }
+
+  return fs.readFileSync(refPath, "utf-8").trim() || undefined;
+}
+
+export function writeRef(cwd: string, ref: string, hash: string) {
+  const refPath = getRefPath(cwd, ref);
+
+  fs.mkdirSync(path.dirname(refPath), { recursive: true });
+  fs.writeFileSync(refPath, `${hash}\n`);
+}
+
+export function deleteRef(cwd: string, ref: string) {
+  fs.rmSync(getRefPath(cwd, ref), { force: true });
+}
+
+export function listBranches(cwd: string): { name: string; hash?: string }[] {
+  const headsDir = getRefPath(cwd, "refs/heads");
+
+  if (!fs.existsSync(headsDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(headsDir)
+    .sort()
+    .map((name) => ({ name, hash: readRef(cwd, `refs/heads/${name}`) }));
+}
+
+// The tree hash HEAD points at, undefined before the first snapshot
+export function resolveHead(cwd: string): string | undefined {
+  const head = readHead(cwd);
+  return head.ref ? readRef(cwd, head.ref) : head.hash;
+}
+
+// Moves the current branch, or HEAD itself when detached, to a snapshot
+export function updateHead(cwd: string, hash: string) {
+  const head = readHead(cwd);
+
+  if (head.ref) {
+    writeRef(cwd, head.ref, hash);
+  } else {
+    writeHead(cwd, { hash });
+  }
+}
+
+// Points branches and HEAD at new hashes after snapshots were rehashed
+export function remapRefs(cwd: string, hashes: Map<string, string>) {
+  for (const branch of listBranches(cwd)) {
+    const hash = branch.hash && hashes.get(branch.hash);
+    if (hash) {
+      writeRef(cwd, `refs/heads/${branch.name}`, hash);
+    }
+  }
+
+  const head = readHead(cwd);
+  const headHash = head.hash && hashes.get(head.hash);
+  if (headHash) {
+    writeHead(cwd, { hash: headHash });
+  }
+}
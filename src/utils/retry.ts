@@ -0,0 +1,85 @@
+import axios from "axios";
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  // Which failures are worth another attempt, transient ones by default
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (
+    error: unknown,
+    attempt: number,
+    delay: number,
+    retries: number
+  ) => void;
+}
+
+// Failures that happen before a request reaches the server
+const CONNECTION_ERRORS = [
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+];
+
+// Network failures and server errors may pass, anything else will not
+export function isTransientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  return !error.response || error.response.status >= 500;
+}
+
+/**
+ * True when the request was never delivered, so sending it again cannot
+ * repeat something the server already did. A timeout or server error does
+ * not say whether it was processed.
+ */
+export function isConnectionError(error: unknown): boolean {
+  return (
+    axios.isAxiosError(error) &&
+    !error.response &&
+    CONNECTION_ERRORS.includes(error.code ?? "")
+  );
+}
+
+export function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response
+      ? `HTTP ${error.response.status}`
+      : error.code || error.message;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs a request, retrying transient failures with exponential backoff:
+ * baseDelay, then twice that, and so on, for at most `retries` retries.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const {
+    retries = 3,
+    baseDelay = 1000,
+    shouldRetry = isTransientError,
+    onRetry,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = baseDelay * 2 ** (attempt - 1);
+      onRetry?.(error, attempt, delay, retries);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import axios from "axios";
+import { BACKEND_URL, REQUEST_TIMEOUT } from "../constants.js";
+import { parseDurationList } from "./deadline.js";
+import { isValidSnapshotName } from "./logTrack.js";
+import { SubsysError } from "./errors.js";
+
+export type SettingScope = "repo" | "user";
+export type SettingValue = string | number | boolean;
+export type SettingSource = SettingScope | "env" | "default";
+
+interface SettingDefinition {
+  description: string;
+  scopes: SettingScope[];
+  defaultValue?: SettingValue;
+  env?: string;
+  // Throws when the value is not acceptable
+  parse: (value: string) => SettingValue;
+}
+
+function parseUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    throw new Error(`'${value}' is not a valid URL.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`'${value}' must be an http or https URL.`);
+  }
+  return value.replace(/\/+$/, "");
+}
+
+function parseNonEmpty(value: string): string {
+  if (!value.trim()) {
+    throw new Error("Value must not be empty.");
+  }
+  return value.trim();
+}
+
+export const SETTINGS = {
+  backendUrl: {
+    description: "Backend the CLI talks to",
+    scopes: ["repo", "user"],
+    defaultValue: BACKEND_URL,
+    env: "BACKEND_URL",
+    parse: parseUrl,
+  },
+  timeout: {
+    description: "Request timeout in milliseconds",
+    scopes: ["repo", "user"],
+    defaultValue: REQUEST_TIMEOUT,
+    parse: (value: string) => {
+      const timeout = Number(value);
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        throw new Error("Timeout must be a positive number of milliseconds.");
+      }
+      return timeout;
+    },
+  },
+  proxy: {
+    description: "HTTP proxy for backend requests",
+    scopes: ["repo", "user"],
+    parse: parseUrl,
+  },
+  defaultSnapshot: {
+    description: "Snapshot submitted when none is given",
+    scopes: ["repo"],
+    parse: (value: string) => {
+      if (!isValidSnapshotName(value)) {
+        throw new Error(`'${value}' is not a valid snapshot name.`);
+      }
+      return value;
+    },
+  },
+  assignmentCode: {
+    description: "Code of the assignment this repository is for",
+    scopes: ["repo"],
+    parse: parseNonEmpty,
+  },
+  studentId: {
+    description: "Student ID or email to log in with",
+    scopes: ["repo", "user"],
+    parse: parseNonEmpty,
+  },
+  deadlineWarnings: {
+    description: "Time left before a deadline at which submit warns, e.g. 24h,1h",
+    scopes: ["repo", "user"],
+    defaultValue: "24h,1h",
+    parse: (value: string) => {
+      parseDurationList(value);
+      return value.replace(/\s+/g, "");
+    },
+  },
+  useGitignore: {
+    description: "Also apply .gitignore rules when snapping",
+    scopes: ["repo"],
+    parse: (value: string) => {
+      if (value !== "true" && value !== "false") {
+        throw new Error("Value must be true or false.");
+      }
+      return value === "true";
+    },
+  },
+} satisfies Record<string, SettingDefinition>;
+
+export type SettingKey = keyof typeof SETTINGS;
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTINGS, key);
+}
+
+// User-level files live outside any repository, SUBSYS_HOME moves them
+export function getUserConfigDir(): string {
+  if (process.env.SUBSYS_HOME) {
+    return process.env.SUBSYS_HOME;
+  }
+
+  return path.join(
+    process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+    "subsys"
+  );
+}
+
+export function getConfigFile(scope: SettingScope, cwd: string): string {
+  return scope === "user"
+    ? path.join(getUserConfigDir(), "config.json")
+    : path.join(cwd, ".subsys", "config.json");
+}
+
+export function readConfigFile(
+  scope: SettingScope,
+  cwd: string
+): Record<string, SettingValue> {
+  try {
+    return JSON.parse(fs.readFileSync(getConfigFile(scope, cwd), "utf-8"));
+  } catch (error) {
+    return {};
+  }
+}
+
+export function writeConfigFile(
+  scope: SettingScope,
+  cwd: string,
+  values: Record<string, SettingValue>
+) {
+  const configFile = getConfigFile(scope, cwd);
+
+  fs.mkdirSync(path.dirname(configFile), { recursive: true });
+  fs.writeFileSync(configFile, JSON.stringify(values, null, 2));
+}
+
+/**
+ * Finds the effective value of a setting. The environment wins over the
+ * repository, which wins over the user configuration and then the default.
+ */
+export function resolveSetting(
+  key: SettingKey,
+  cwd = process.cwd()
+): { value: SettingValue; source: SettingSource } | undefined {
+  const definition: SettingDefinition = SETTINGS[key];
+
+  const envValue = definition.env ? process.env[definition.env] : undefined;
+  if (envValue) {
+    // Checked and normalised like a value given to config set
+    try {
+      return { value: definition.parse(envValue), source: "env" };
+    } catch (error) {
+      throw new SubsysError(
+        "INVALID_ARGUMENT",
+        `${definition.env}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  for (const scope of ["repo", "user"] as SettingScope[]) {
+    const value = readConfigFile(scope, cwd)[key];
+    if (definition.scopes.includes(scope) && value !== undefined) {
+      return { value, source: scope };
+    }
+  }
+
+  return definition.defaultValue !== undefined
+    ? { value: definition.defaultValue, source: "default" }
+    : undefined;
+}
+
+export function getSetting(
+  key: SettingKey,
+  cwd = process.cwd()
+): SettingValue | undefined {
+  return resolveSetting(key, cwd)?.value;
+}
+
+// Every request goes through the default axios instance
+export function applyRequestSettings(cwd = process.cwd()) {
+  axios.defaults.timeout = Number(getSetting("timeout", cwd));
+
+  const proxy = getSetting("proxy", cwd);
+  if (proxy) {
+    const proxyUrl = new URL(String(proxy));
+    axios.defaults.proxy = {
+      protocol: proxyUrl.protocol.replace(":", ""),
+      host: proxyUrl.hostname,
+      port: Number(proxyUrl.port) || (proxyUrl.protocol === "https:" ? 443 : 80),
+      auth: proxyUrl.username
+        ? {
+            username: decodeURIComponent(proxyUrl.username),
+            password: decodeURIComponent(proxyUrl.password),
+          }
+        : undefined,
+    };
+  }
+}
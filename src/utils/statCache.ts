@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import { RepositoryFormat } from "./objects.js";
+
+interface StatCacheEntry {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+/**
+ * Remembers the hash of every file by path, modification time and size, like
+ * git's index, so unchanged files are not read again on the next walk.
+ */
+export interface StatCache {
+  formatKey: string;
+  writtenAt: number;
+  entries: Record<string, StatCacheEntry>;
+  seen: Set<string>;
+}
+
+function getIndexFile(cwd: string) {
+  return path.join(cwd, ".subsys", "index.json");
+}
+
+function getFormatKey(format: RepositoryFormat) {
+  return `${format.version}:${format.hashAlgorithm}`;
+}
+
+export function loadStatCache(cwd: string, format: RepositoryFormat): StatCache {
+  const formatKey = getFormatKey(format);
+  const emptyCache = { formatKey, writtenAt: 0, entries: {}, seen: new Set<string>() };
+
+  try {
+    const index = JSON.parse(fs.readFileSync(getIndexFile(cwd), "utf-8"));
+
+    // Hashes computed under another object format are useless
+    if (index.formatKey !== formatKey) {
+      return emptyCache;
+    }
+
+    return { ...index, seen: new Set<string>() };
+  } catch (error) {
+    return emptyCache;
+  }
+}
+
+export function lookupStatCache(
+  cache: StatCache,
+  relPath: string,
+  stats: fs.Stats
+): string | undefined {
+  const entry = cache.entries[relPath];
+
+  // A file modified in the same instant the index was written may have
+  // changed without its mtime moving, so it is never trusted
+  if (
+    entry &&
+    entry.mtimeMs === stats.mtimeMs &&
+    entry.size === stats.size &&
+    stats.mtimeMs < cache.writtenAt
+  ) {
+    return entry.hash;
+  }
+
+  return undefined;
+}
+
+export function recordStatCache(
+  cache: StatCache,
+  relPath: string,
+  stats: fs.Stats,
+  hash: string
+) {
+  cache.entries[relPath] = { mtimeMs: stats.mtimeMs, size: stats.size, hash };
+}
+
+/**
+ * Writes the cache back. Files under walkedDir that were not seen during
+ * the walk no longer exist and are dropped, entries outside it are kept.
+ */
+export function saveStatCache(cwd: string, cache: StatCache, walkedDir = "") {
+  const prefix = walkedDir ? `${walkedDir}/` : "";
+  const entries: Record<string, StatCacheEntry> = {};
+
+  for (const [relPath, entry] of Object.entries(cache.entries)) {
+    if (cache.seen.has(relPath) || !relPath.startsWith(prefix)) {
+      entries[relPath] = entry;
+    }
+  }
+
+  fs.writeFileSync(
+    getIndexFile(cwd),
+    JSON.stringify({ formatKey: cache.formatKey, writtenAt: Date.now(), entries })
+  );
+}
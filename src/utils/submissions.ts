@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface SubmissionRecord {
+  snapshot: string;
+  treeHash: string;
+  assignmentCode: string;
+  submittedAt: string;
+  backendUrl: string;
+  uploadFormat: string;
+  late?: boolean;
+  submissionId?: string;
+  response?: unknown;
+}
+
+export function getSubmissionsPath(cwd: string): string {
+  return path.join(cwd, ".subsys", "submissions.json");
+}
+
+export function readSubmissions(cwd: string): SubmissionRecord[] {
+  const submissionsPath = getSubmissionsPath(cwd);
+
+  if (!fs.existsSync(submissionsPath)) {
+    return [];
+  }
+
+  return JSON.parse(fs.readFileSync(submissionsPath, "utf-8"));
+}
+
+export function recordSubmission(cwd: string, record: SubmissionRecord) {
+  const submissions = readSubmissions(cwd);
+  submissions.push(record);
+  fs.writeFileSync(
+    getSubmissionsPath(cwd),
+    JSON.stringify(submissions, null, 2)
+  );
+}
+
+// Receipts follow their snapshots when migrate rehashes them
+export function remapSubmissions(cwd: string, hashes: Map<string, string>) {
+  const submissions = readSubmissions(cwd);
+  if (!submissions.some((record) => hashes.has(record.treeHash))) {
+    return;
+  }
+
+  for (const record of submissions) {
+    record.treeHash = hashes.get(record.treeHash) ?? record.treeHash;
+  }
+  fs.writeFileSync(
+    getSubmissionsPath(cwd),
+    JSON.stringify(submissions, null, 2)
+  );
+}
+
+export function findSubmissionsOfTree(
+  cwd: string,
+  treeHash: string
+): SubmissionRecord[] {
+  return readSubmissions(cwd).filter((record) => record.treeHash === treeHash);
+}
+
+// The backend has not settled on a field name for the submission's ID
+export function getSubmissionId(response: unknown): string | undefined {
+  if (typeof response !== "object" || response === null) {
+    return undefined;
+  }
+
+  const data = response as Record<string, unknown>;
+  const nested =
+    typeof data.data === "object" && data.data !== null
+      ? (data.data as Record<string, unknown>)
+      : {};
+  const id = data.submissionId ?? data.id ?? nested.submissionId ?? nested.id;
+
+  return id === undefined || id === null ? undefined : String(id);
+}
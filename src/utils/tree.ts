@@ -0,0 +1,189 @@
+import * as fs from "fs";
+import * as path from "path";
+import { promisify } from "util";
+import { IgnoreMatcher, isIgnored, toRelativePath } from "./ignore.js";
+import { RepositoryFormat, hashFile, hashTree } from "./objects.js";
+import { StatCache, lookupStatCache, recordStatCache } from "./statCache.js";
+
+const readdir = promisify(fs.readdir);
+const stat = promisify(fs.stat);
+
+export interface TreeObject {
+  type: "tree" | "blob";
+  name: string;
+  hash: string;
+  size?: number;
+  children?: TreeObject[];
+}
+
+export interface WalkStats {
+  filesHashed: number;
+  filesCached: number;
+  bytesHashed: number;
+}
+
+export interface TreeWalkOptions {
+  onIgnore?: (entryPath: string) => void;
+  cache?: StatCache;
+  stats?: WalkStats;
+}
+
+interface WalkContext extends TreeWalkOptions {
+  matcher: IgnoreMatcher;
+  format: RepositoryFormat;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+// Number of files hashed at the same time during a tree walk
+const HASH_CONCURRENCY = 8;
+
+function createLimiter(concurrency: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // The finishing task hands its slot straight to us
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+async function hashEntry(
+  entryPath: string,
+  relPath: string,
+  entryStats: fs.Stats,
+  context: WalkContext
+): Promise<string> {
+  const cachedHash = context.cache
+    ? lookupStatCache(context.cache, relPath, entryStats)
+    : undefined;
+
+  if (cachedHash) {
+    if (context.stats) context.stats.filesCached++;
+    return cachedHash;
+  }
+
+  const hash = await context.limit(() =>
+    hashFile(entryPath, entryStats.size, context.format)
+  );
+
+  if (context.stats) {
+    context.stats.filesHashed++;
+    context.stats.bytesHashed += entryStats.size;
+  }
+  if (context.cache) {
+    recordStatCache(context.cache, relPath, entryStats, hash);
+  }
+
+  return hash;
+}
+
+async function walkDirectory(
+  directoryPath: string,
+  context: WalkContext
+): Promise<TreeObject> {
+  const entries = await readdir(directoryPath);
+
+  // Siblings are walked concurrently, file reads are bounded by the limiter
+  const children = await Promise.all(
+    entries.map(async (entry): Promise<TreeObject | null> => {
+      if (entry === ".subsys") {
+        return null;
+      }
+
+      const entryPath = path.join(directoryPath, entry);
+      const entryStats = await stat(entryPath);
+      const relPath = toRelativePath(context.matcher, entryPath);
+
+      if (isIgnored(context.matcher, relPath, entryStats.isDirectory())) {
+        if (context.onIgnore) {
+          context.onIgnore(entryPath);
+        }
+        return null;
+      }
+
+      if (entryStats.isDirectory()) {
+        const subTreeObject = await walkDirectory(entryPath, context);
+        return {
+          type: "tree",
+          name: entry,
+          hash: subTreeObject.hash,
+          children: subTreeObject.children,
+        };
+      }
+
+      if (context.cache) {
+        context.cache.seen.add(relPath);
+      }
+
+      return {
+        type: "blob",
+        name: entry,
+        hash: await hashEntry(entryPath, relPath, entryStats, context),
+        size: entryStats.size,
+      };
+    })
+  );
+
+  const treeObject: TreeObject = {
+    type: "tree",
+    name: "",
+    hash: "",
+    children: children.filter((child): child is TreeObject => child !== null),
+  };
+
+  treeObject.children!.sort((a, b) => a.name.localeCompare(b.name));
+
+  treeObject.hash = hashTree(treeObject.children!, context.format);
+
+  return treeObject;
+}
+
+export async function calculateTreeHash(
+  directoryPath: string,
+  matcher: IgnoreMatcher,
+  format: RepositoryFormat,
+  options: TreeWalkOptions = {}
+): Promise<TreeObject> {
+  return walkDirectory(directoryPath, {
+    ...options,
+    matcher,
+    format,
+    limit: createLimiter(HASH_CONCURRENCY),
+  });
+}
+
+export function summarizeTree(tree: TreeObject): {
+  fileCount: number;
+  totalSize: number;
+} {
+  let fileCount = 0;
+  let totalSize = 0;
+
+  for (const child of tree.children || []) {
+    if (child.type === "blob") {
+      fileCount++;
+      totalSize += child.size || 0;
+    } else {
+      const summary = summarizeTree(child);
+      fileCount += summary.fileCount;
+      totalSize += summary.totalSize;
+    }
+  }
+
+  return { fileCount, totalSize };
+}
@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import axios from "axios";
+import FormData from "form-data";
+import { HttpClient } from "./context.js";
+
+export interface PayloadPart {
+  field: string;
+  file: string;
+  filename: string;
+  contentType?: string;
+}
+
+export interface SubmissionPayload {
+  parts: PayloadPart[];
+  fields: Record<string, string>;
+}
+
+export async function postSubmission(
+  backendUrl: string,
+  payload: SubmissionPayload,
+  http: HttpClient = axios
+): Promise<unknown> {
+  // Built per call, the file streams of a form can only be read once
+  const formData = new FormData();
+
+  for (const part of payload.parts) {
+    formData.append(part.field, fs.createReadStream(part.file), {
+      filename: part.filename,
+      contentType: part.contentType,
+    });
+  }
+  for (const [name, value] of Object.entries(payload.fields)) {
+    formData.append(name, value);
+  }
+
+  const response = await http.post(
+    `${backendUrl}/api/submit/assignment`,
+    formData,
+    { headers: formData.getHeaders() }
+  );
+
+  return response.data;
+}
@@ -0,0 +1,57 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TreeObject } from "./tree.js";
+import { readLogTrack } from "./logTrack.js";
+
+/**
+ * In workspace mode config.json maps assignment codes to the subdirectory
+ * holding each assignment, relative to the repository root.
+ */
+export function readWorkspace(cwd: string): Record<string, string> {
+  try {
+    const configFile = path.join(cwd, ".subsys", "config.json");
+    return JSON.parse(fs.readFileSync(configFile, "utf-8")).workspace || {};
+  } catch (error) {
+    return {};
+  }
+}
+
+export function getAssignmentRoot(
+  cwd: string,
+  assignmentCode: string
+): string | undefined {
+  const relDir = readWorkspace(cwd)[assignmentCode];
+  return relDir === undefined ? undefined : path.join(cwd, relDir);
+}
+
+/**
+ * Returns the directory a snapshot was taken from: the assignment's
+ * subdirectory for workspace snapshots, otherwise the repository root.
+ */
+export function getSnapshotRoot(cwd: string, snapshotName: string): string {
+  const entry = readLogTrack(cwd).find((item) => item.treeName === snapshotName);
+  const assignmentRoot = entry?.assignment
+    ? getAssignmentRoot(cwd, entry.assignment)
+    : undefined;
+
+  return assignmentRoot || cwd;
+}
+
+// Finds the tree of a posix-style subdirectory within a tree
+export function findSubtree(
+  tree: TreeObject,
+  relDir: string
+): TreeObject | undefined {
+  let node: TreeObject | undefined = tree;
+
+  for (const segment of relDir.split("/").filter(Boolean)) {
+    node = node.children?.find(
+      (child) => child.type === "tree" && child.name === segment
+    );
+    if (!node) {
+      return undefined;
+    }
+  }
+
+  return node;
+}